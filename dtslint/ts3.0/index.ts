@@ -1,10 +1,18 @@
-import { time } from '../../src/time'
+import { time, timeWith } from '../../src/time'
+import { getTestClock } from '../../src/Clock'
 import * as IO from 'fp-ts/lib/IO'
 import * as Task from 'fp-ts/lib/Task'
 import * as TaskEither from 'fp-ts/lib/TaskEither'
 import * as ReaderTaskEither from 'fp-ts/lib/ReaderTaskEither'
 import { either, right } from 'fp-ts/lib/Either'
 import { Do } from '../../src/Do'
+import { traverseWithConcurrency } from '../../src/traverseWithConcurrency'
+import { retrying, limitRetries } from '../../src/retry'
+import { raceFirstSuccess, stateTaskEitherRace, taskEitherRace, timeout } from '../../src/timeout'
+import { stateTaskEither } from '../../src/StateTaskEither'
+import { readerIO } from '../../src/ReaderIO'
+import { asks, getMonad, tell } from '../../src/ReaderWriterStateTaskEither'
+import { getArrayMonoid } from 'fp-ts/lib/Monoid'
 
 //
 // time
@@ -14,7 +22,53 @@ const time1 = time(IO.io) // $ExpectType <A>(ma: IO<A>) => IO<[A, number]>
 const time2 = time(Task.task) // $ExpectType <A>(ma: Task<A>) => Task<[A, number]>
 const time3 = time(TaskEither.taskEither) // $ExpectType <L, A>(ma: TaskEither<L, A>) => TaskEither<L, [A, number]>
 const time4 = time(ReaderTaskEither.readerTaskEither) // $ExpectType <U, L, A>(ma: ReaderTaskEither<U, L, A>) => ReaderTaskEither<U, L, [A, number]>
+const time5 = time(stateTaskEither) // $ExpectType <U, L, A>(ma: StateTaskEither<U, L, A>) => StateTaskEither<U, L, [A, number]>
+const time6 = time(readerIO) // $ExpectType <L, A>(ma: ReaderIO<L, A>) => ReaderIO<L, [A, number]>
+const timeWith1 = timeWith(getTestClock())(TaskEither.taskEither) // $ExpectType <L, A>(ma: TaskEither<L, A>) => TaskEither<L, [A, number]>
 
 Do(either)
   .bind('name', right<string, string>('bob'))
   .bindL('bad', () => right<boolean, number>(54)) // $ExpectError
+
+Do(either)
+  .let('name', 'bob')
+  .filter(({ name }) => name.length > 0) // $ExpectError
+
+Do(either)
+  .bind('name', right<string, string>('bob'))
+  .sequenceS({ name: right<string, number>(1) }) // $ExpectError
+
+//
+// traverseWithConcurrency
+//
+
+const traverseWithConcurrency1 = traverseWithConcurrency(Task.task)(2) // $ExpectType <A, B>(as: A[], f: (a: A) => Task<B>) => Task<B[]>
+const traverseWithConcurrency2 = traverseWithConcurrency(TaskEither.taskEither)(2) // $ExpectType <L, A, B>(as: A[], f: (a: A) => TaskEither<L, B>) => TaskEither<L, B[]>
+
+//
+// retrying
+//
+
+const retrying1 = retrying(TaskEither.taskEither)(limitRetries(3), () => TaskEither.taskEither.of<string, number>(1), n => n > 0) // $ExpectType TaskEither<string, number>
+const retrying2 = retrying(ReaderTaskEither.readerTaskEither)(limitRetries(3), () => ReaderTaskEither.readerTaskEither.of<boolean, string, number>(1), n => n > 0) // $ExpectType ReaderTaskEither<boolean, string, number>
+
+//
+// timeout
+//
+
+const timeout1 = timeout(taskEitherRace)(10) // $ExpectType <L, A>(ma: TaskEither<L, A>, onTimeout: TaskEither<L, A>) => TaskEither<L, A>
+const timeout2 = timeout(stateTaskEitherRace)(10) // $ExpectType <U, L, A>(ma: StateTaskEither<U, L, A>, onTimeout: StateTaskEither<U, L, A>) => StateTaskEither<U, L, A>
+timeout(Task.task) // $ExpectError
+raceFirstSuccess(Task.task) // $ExpectError
+
+//
+// ReaderWriterStateTaskEither
+//
+
+const RWSTE = getMonad<{ prefix: string }, Array<string>, number, string>(getArrayMonoid<string>())
+Do(RWSTE)
+  .bind('prefix', RWSTE.asks(e => e.prefix))
+  .bind('name', asks(getArrayMonoid<string>())((e: { name: string }) => e.name)) // $ExpectError
+Do(RWSTE)
+  .bind('prefix', RWSTE.asks(e => e.prefix))
+  .do(tell<{ prefix: string }, Array<number>, number, string>([1])) // $ExpectError
@@ -0,0 +1,78 @@
+//
+// StateIO usage (adapted from https://wiki.haskell.org/Simple_StateT_use)
+//
+
+import * as array from 'fp-ts/lib/Array'
+import { log } from 'fp-ts/lib/Console'
+import { IO } from 'fp-ts/lib/IO'
+import { ordNumber } from 'fp-ts/lib/Ord'
+import { randomInt } from 'fp-ts/lib/Random'
+import { focus } from '../src/Lens'
+import { StateIO, fromIO, get, modify, put, stateIO, zoom } from '../src/StateIO'
+
+// Example 1
+
+/** pop the next unique off the stack */
+const pop: StateIO<Array<number>, number> = get<Array<number>>().chain(ns =>
+  array.foldL(ns, () => stateIO.of(0), (h, t) => put(t).chain(() => stateIO.of(h)))
+)
+
+const program1: StateIO<Array<number>, void> = pop
+  .chain(x => fromIO(log(x)))
+  .chain(() => pop)
+  .chain(y => fromIO(log(y)))
+  .chain(() => stateIO.of(undefined))
+
+program1.run([1, 2, 3])
+// => 1
+// => 2
+
+// Example 2: a guessing game
+
+function readLine(s: string): IO<string> {
+  return new IO(() => require('readline-sync').question(s))
+}
+
+function guessSession(answer: number): StateIO<number, void> {
+  return fromIO<number, string>(readLine('')).chain(gs => {
+    const g = parseInt(gs, 10)
+    return modify<number>(s => s + 1).chain(() => {
+      switch (ordNumber.compare(g, answer)) {
+        case -1:
+          return fromIO<number, void>(log('Too low')).chain(() => guessSession(answer))
+        case 1:
+          return fromIO<number, void>(log('Too high')).chain(() => guessSession(answer))
+        case 0:
+          return fromIO<number, void>(log('Got it!'))
+      }
+    })
+  })
+}
+
+const program2 = randomInt(1, 100).chain(answer =>
+  log(`I'm thinking of a number between 1 and 100, can you guess it? `).chain(() => {
+    const guesses = guessSession(answer).exec(0)
+    return log(`Success in ${guesses} tries.`)
+  })
+)
+
+program2.run()
+
+// example 3: a global state
+
+type Vars = {
+  var1: number
+  var2: number
+}
+
+const var1 = focus<Vars>()('var1')
+
+const var2 = focus<Vars>()('var2')
+
+const program3 = zoom(var1)(get<number>())
+  .chain(a => zoom(var2)(modify<number>(n => n * a)))
+  .chain(() => zoom(var2)(get<number>()))
+  .chain(b => fromIO(log(b)))
+
+program3.run({ var1: 2, var2: 1.3 })
+// => 2.6
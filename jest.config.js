@@ -5,7 +5,7 @@ module.exports = {
   },
   testRegex: 'test',
   moduleFileExtensions: ['ts', 'js'],
-  testPathIgnorePatterns: [],
+  testPathIgnorePatterns: ['\\.d\\.ts$'],
   coverageThreshold: {
     global: {
       branches: 100,
@@ -0,0 +1,151 @@
+/**
+ * @file This module provides a simuation of Haskell applicative do notation.
+ */
+import {
+  Applicative,
+  Applicative1,
+  Applicative2,
+  Applicative2C,
+  Applicative3,
+  Applicative3C
+} from 'fp-ts/lib/Applicative'
+import { HKT, Type, Type2, Type3, URIS, URIS2, URIS3 } from 'fp-ts/lib/HKT'
+import { EnforceNonEmptyRecord, Sequenced } from './Do'
+
+export interface Ado3<M extends URIS3, S extends object> {
+  do: <U, L>(ma: Type3<M, U, L, unknown>) => Ado3C<M, S, U, L>
+  bind: <N extends string, A, U, L>(
+    name: Exclude<N, keyof S>,
+    ma: Type3<M, U, L, A>
+  ) => Ado3C<M, S & { [K in N]: A }, U, L>
+  let: <N extends string, A>(name: Exclude<N, keyof S>, a: A) => Ado3<M, S & { [K in N]: A }>
+  sequenceS: <U, L, R extends Record<string, Type3<M, U, L, any>>>(
+    r: EnforceNonEmptyRecord<R> & { [K in keyof S]?: never }
+  ) => Ado3C<M, S & { [K in keyof R]: [R[K]] extends [Type3<M, any, any, infer A>] ? A : never }, U, L>
+  return: <A, U, L>(f: (s: S) => A) => Type3<M, U, L, A>
+  done: <U, L>() => Type3<M, U, L, S>
+}
+
+export interface Ado3C<M extends URIS3, S extends object, U, L> {
+  do: (ma: Type3<M, U, L, unknown>) => Ado3C<M, S, U, L>
+  bind: <N extends string, A>(name: Exclude<N, keyof S>, ma: Type3<M, U, L, A>) => Ado3C<M, S & { [K in N]: A }, U, L>
+  let: <N extends string, A>(name: Exclude<N, keyof S>, a: A) => Ado3C<M, S & { [K in N]: A }, U, L>
+  sequenceS: <R extends Record<string, Type3<M, U, L, any>>>(
+    r: EnforceNonEmptyRecord<R> & { [K in keyof S]?: never }
+  ) => Ado3C<M, S & { [K in keyof R]: [R[K]] extends [Type3<M, any, any, infer A>] ? A : never }, U, L>
+  return: <A>(f: (s: S) => A) => Type3<M, U, L, A>
+  done: () => Type3<M, U, L, S>
+}
+
+export interface Ado2<M extends URIS2, S extends object> {
+  do: <L>(ma: Type2<M, L, unknown>) => Ado2C<M, S, L>
+  bind: <N extends string, A, L>(name: Exclude<N, keyof S>, ma: Type2<M, L, A>) => Ado2C<M, S & { [K in N]: A }, L>
+  let: <N extends string, A>(name: Exclude<N, keyof S>, a: A) => Ado2<M, S & { [K in N]: A }>
+  sequenceS: <L, R extends Record<string, Type2<M, L, any>>>(
+    r: EnforceNonEmptyRecord<R> & { [K in keyof S]?: never }
+  ) => Ado2C<M, S & { [K in keyof R]: [R[K]] extends [Type2<M, any, infer A>] ? A : never }, L>
+  return: <A, L>(f: (s: S) => A) => Type2<M, L, A>
+  done: <L>() => Type2<M, L, S>
+}
+
+export interface Ado2C<M extends URIS2, S extends object, L> {
+  do: (ma: Type2<M, L, unknown>) => Ado2C<M, S, L>
+  bind: <N extends string, A>(name: Exclude<N, keyof S>, ma: Type2<M, L, A>) => Ado2C<M, S & { [K in N]: A }, L>
+  let: <N extends string, A>(name: Exclude<N, keyof S>, a: A) => Ado2C<M, S & { [K in N]: A }, L>
+  sequenceS: <R extends Record<string, Type2<M, L, any>>>(
+    r: EnforceNonEmptyRecord<R> & { [K in keyof S]?: never }
+  ) => Ado2C<M, S & { [K in keyof R]: [R[K]] extends [Type2<M, any, infer A>] ? A : never }, L>
+  return: <A>(f: (s: S) => A) => Type2<M, L, A>
+  done: () => Type2<M, L, S>
+}
+
+export interface Ado1<M extends URIS, S extends object> {
+  do: (ma: Type<M, unknown>) => Ado1<M, S>
+  bind: <N extends string, A>(name: Exclude<N, keyof S>, ma: Type<M, A>) => Ado1<M, S & { [K in N]: A }>
+  let: <N extends string, A>(name: Exclude<N, keyof S>, a: A) => Ado1<M, S & { [K in N]: A }>
+  sequenceS: <R extends Record<string, Type<M, any>>>(
+    r: EnforceNonEmptyRecord<R> & { [K in keyof S]?: never }
+  ) => Ado1<M, S & { [K in keyof R]: [R[K]] extends [Type<M, infer A>] ? A : never }>
+  return: <A>(f: (s: S) => A) => Type<M, A>
+  done: () => Type<M, S>
+}
+
+export interface Ado0<M, S extends object> {
+  do: (ma: HKT<M, unknown>) => Ado0<M, S>
+  bind: <N extends string, A>(name: Exclude<N, keyof S>, ma: HKT<M, A>) => Ado0<M, S & { [K in N]: A }>
+  let: <N extends string, A>(name: Exclude<N, keyof S>, a: A) => Ado0<M, S & { [K in N]: A }>
+  sequenceS: <R extends Record<string, HKT<M, any>>>(
+    r: EnforceNonEmptyRecord<R> & { [K in keyof S]?: never }
+  ) => Ado0<M, S & Sequenced<M, R>>
+  return: <A>(f: (s: S) => A) => HKT<M, A>
+  done: () => HKT<M, S>
+}
+
+// a computed property is typed with a string index, hence the assertion
+const assign = <S extends object, N extends string, B>(s: S, name: Exclude<N, keyof S>, b: B): S & { [K in N]: B } =>
+  Object.assign({}, s, { [name]: b }) as S & { [K in N]: B }
+
+/**
+ * Like `Do` but only requires an `Applicative` instance. Since the steps are combined with `ap`, they can't depend on
+ * the scope built so far: that's why there are no `doL` / `bindL` functions. In exchange every step is always run, so
+ * instances that accumulate errors (e.g. `TaskValidation`) collect the failures of all the steps.
+ *
+ * @example
+ * import { getSemigroup, NonEmptyArray } from 'fp-ts/lib/NonEmptyArray'
+ * import { failure, success } from 'fp-ts/lib/Validation'
+ * import { task } from 'fp-ts/lib/Task'
+ * import { Ado } from 'fp-ts-contrib/lib/Ado'
+ * import { getApplicative, TaskValidation } from 'fp-ts-contrib/lib/TaskValidation'
+ *
+ * const error = (message: string) => new TaskValidation(task.of(failure(new NonEmptyArray(message, []))))
+ *
+ * const user = Ado(getApplicative(getSemigroup<string>())) // <- an applicative instance
+ *   .bind('name', new TaskValidation(task.of(success('bob'))))
+ *   .bind('email', error('invalid email'))
+ *   .bind('age', error('invalid age'))
+ *   .return(({ name, email, age }) => ({ name, email, age }))
+ *
+ * user.value.run().then(result => {
+ *   assert.deepStrictEqual(result, failure(new NonEmptyArray('invalid email', ['invalid age'])))
+ * })
+ *
+ * @since 0.0.3
+ */
+export function Ado<M extends URIS3>(M: Applicative3<M>): Ado3<M, {}>
+export function Ado<M extends URIS3, U, L>(M: Applicative3C<M, U, L>): Ado3C<M, {}, U, L>
+export function Ado<M extends URIS2>(M: Applicative2<M>): Ado2<M, {}>
+export function Ado<M extends URIS2, L>(M: Applicative2C<M, L>): Ado2C<M, {}, L>
+export function Ado<M extends URIS>(M: Applicative1<M>): Ado1<M, {}>
+export function Ado<M>(M: Applicative<M>): Ado0<M, {}>
+// like `Do`, the compiler can't relate the overloads to `Ado0<M, {}>`, the scope is typed by `toAdo`
+export function Ado<M>(M: Applicative<M>): unknown {
+  function toAdo<S extends object>(ms: HKT<M, S>): Ado0<M, S> {
+    return {
+      do(mv: HKT<M, unknown>): Ado0<M, S> {
+        return toAdo(M.ap(M.map(ms, a => () => a), mv))
+      },
+      bind<N extends string, B>(name: Exclude<N, keyof S>, mb: HKT<M, B>): Ado0<M, S & { [K in N]: B }> {
+        return toAdo(M.ap(M.map(ms, a => (b: B) => assign<S, N, B>(a, name, b)), mb))
+      },
+      let<N extends string, B>(name: Exclude<N, keyof S>, b: B): Ado0<M, S & { [K in N]: B }> {
+        return toAdo(M.map(ms, a => assign<S, N, B>(a, name, b)))
+      },
+      sequenceS<R extends Record<string, HKT<M, any>>>(
+        r: EnforceNonEmptyRecord<R> & { [K in keyof S]?: never }
+      ): Ado0<M, S & Sequenced<M, R>> {
+        return toAdo(Object.keys(r).reduce(
+          (mo: HKT<M, object>, k) => M.ap(M.map(mo, o => (b: unknown) => ({ ...o, [k]: b })), r[k]),
+          ms
+        ) as HKT<M, S & Sequenced<M, R>>)
+      },
+      return<B>(f: (s: S) => B): HKT<M, B> {
+        return M.map(ms, f)
+      },
+      done(): HKT<M, S> {
+        return ms
+      }
+    }
+  }
+
+  return toAdo(M.of({}))
+}
@@ -1,8 +1,17 @@
+import { Alternative1 } from 'fp-ts/lib/Alternative'
+import { Applicative } from 'fp-ts/lib/Applicative'
 import { array } from 'fp-ts/lib/Array'
+import { Separated } from 'fp-ts/lib/Compactable'
+import { Either } from 'fp-ts/lib/Either'
+import { Filterable1, getFilterableComposition } from 'fp-ts/lib/Filterable'
+import { Foldable2v1 } from 'fp-ts/lib/Foldable2v'
+import { HKT } from 'fp-ts/lib/HKT'
 import { Monad1 } from 'fp-ts/lib/Monad'
-import { Option, none as optionNone, some as optionSome } from 'fp-ts/lib/Option'
+import { Monoid } from 'fp-ts/lib/Monoid'
+import { Option, fromNullable, none as optionNone, option, some as optionSome } from 'fp-ts/lib/Option'
 import * as optionT from 'fp-ts/lib/OptionT'
-import { identity } from 'fp-ts/lib/function'
+import { Traversable2v1 } from 'fp-ts/lib/Traversable2v'
+import { Predicate, Refinement, identity } from 'fp-ts/lib/function'
 
 declare module 'fp-ts/lib/HKT' {
   interface URI2HKT<A> {
@@ -17,6 +26,8 @@ export type URI = typeof URI
 const T = optionT.getOptionT2v(array)
 const foldT = optionT.fold(array)
 
+const F = getFilterableComposition(array, option)
+
 export class ArrayOption<A> {
   readonly _A!: A
   readonly _URI!: URI
@@ -39,15 +50,35 @@ export class ArrayOption<A> {
   getOrElse(a: A): Array<A> {
     return this.fold(a, identity)
   }
+  /**
+   * Drops the `None`s, unlike `compact` (and `filter` / `filterMap`), which keeps the slots of the `None`s
+   */
+  somes(): Array<A> {
+    return array.compact(this.value)
+  }
+  alt(fy: ArrayOption<A>): ArrayOption<A> {
+    return new ArrayOption(array.alt(this.value, fy.value))
+  }
+  filterMap<B>(f: (a: A) => Option<B>): ArrayOption<B> {
+    return new ArrayOption(F.filterMap(this.value, f))
+  }
+  filter(p: Predicate<A>): ArrayOption<A> {
+    return new ArrayOption(F.filter(this.value, p))
+  }
+  reduce<B>(b: B, f: (b: B, a: A) => B): B {
+    return this.value.reduce((b, o) => (o.isSome() ? f(b, o.value) : b), b)
+  }
 }
 
-const map = <A, B>(fa: ArrayOption<A>, f: (a: A) => B): ArrayOption<B> => fa.map(f)
-
 const of = <A>(a: A): ArrayOption<A> => new ArrayOption(T.of(a))
 
-const ap = <A, B>(fab: ArrayOption<(a: A) => B>, fa: ArrayOption<A>): ArrayOption<B> => fa.ap(fab)
+const zero = <A>(): ArrayOption<A> => new ArrayOption([])
 
-const chain = <A, B>(fa: ArrayOption<A>, f: (a: A) => ArrayOption<B>): ArrayOption<B> => fa.chain(f)
+const traverse = <F>(F: Applicative<F>) => <A, B>(ta: ArrayOption<A>, f: (a: A) => HKT<F, B>): HKT<F, ArrayOption<B>> =>
+  F.map(array.traverse(F)(ta.value, o => option.traverse(F)(o, f)), bs => new ArrayOption(bs))
+
+const sequence = <F>(F: Applicative<F>) => <A>(ta: ArrayOption<HKT<F, A>>): HKT<F, ArrayOption<A>> =>
+  traverse(F)(ta, identity)
 
 export const some = of
 
@@ -57,10 +88,84 @@ export const fromOption = <A>(ma: Option<A>): ArrayOption<A> => new ArrayOption(
 
 export const fromArray = <A>(ma: Array<A>): ArrayOption<A> => new ArrayOption(ma.map(optionSome))
 
-export const arrayOption: Monad1<URI> = {
+export const fromNullables = <A>(ma: Array<A | null | undefined>): ArrayOption<A> =>
+  new ArrayOption(ma.map(a => fromNullable(a)))
+
+export const arrayOption: Monad1<URI> &
+  Alternative1<URI> &
+  Filterable1<URI> &
+  Foldable2v1<URI> &
+  Traversable2v1<URI> = {
   URI,
-  map,
+  map: (fa, f) => fa.map(f),
   of,
-  ap,
-  chain
+  ap: (fab, fa) => fa.ap(fab),
+  chain: (fa, f) => fa.chain(f),
+  alt: (fx, fy) => fx.alt(fy),
+  zero,
+  compact: fa => fa.filterMap(identity),
+  separate: fa => {
+    const { left, right } = F.separate(fa.value)
+    return { left: new ArrayOption(left), right: new ArrayOption(right) }
+  },
+  partitionMap: (fa, f) => arrayOption.separate(fa.map(f)),
+  partition: <A>(fa: ArrayOption<A>, p: Predicate<A>): Separated<ArrayOption<A>, ArrayOption<A>> => {
+    const { left, right } = F.partition(fa.value, p)
+    return { left: new ArrayOption(left), right: new ArrayOption(right) }
+  },
+  filterMap: (fa, f) => fa.filterMap(f),
+  filter: <A>(fa: ArrayOption<A>, p: Predicate<A>): ArrayOption<A> => fa.filter(p),
+  reduce: (fa, b, f) => fa.reduce(b, f),
+  foldMap: M => (fa, f) => fa.reduce(M.empty, (m, a) => M.concat(m, f(a))),
+  foldr: (fa, b, f) => array.foldr(array.compact(fa.value), b, f),
+  traverse,
+  sequence
 }
+
+//
+// pipeables
+//
+
+export const map = <A, B>(f: (a: A) => B) => (fa: ArrayOption<A>): ArrayOption<B> => fa.map(f)
+
+export const ap = <A>(fa: ArrayOption<A>) => <B>(fab: ArrayOption<(a: A) => B>): ArrayOption<B> => fa.ap(fab)
+
+export const chain = <A, B>(f: (a: A) => ArrayOption<B>) => (ma: ArrayOption<A>): ArrayOption<B> => ma.chain(f)
+
+export const flatten = <A>(mma: ArrayOption<ArrayOption<A>>): ArrayOption<A> => mma.chain(identity)
+
+export const alt = <A>(fy: ArrayOption<A>) => (fx: ArrayOption<A>): ArrayOption<A> => fx.alt(fy)
+
+export const fold = <A, R>(onNone: R, onSome: (a: A) => R) => (ma: ArrayOption<A>): Array<R> => ma.fold(onNone, onSome)
+
+export const getOrElse = <A>(a: A) => (ma: ArrayOption<A>): Array<A> => ma.getOrElse(a)
+
+/**
+ * Keeps the slots of the `None`s (`filterMap(identity)`), use the `somes` method to drop them
+ */
+export const compact = arrayOption.compact
+
+export const separate = arrayOption.separate
+
+export function filter<A, B extends A>(refinement: Refinement<A, B>): (fa: ArrayOption<A>) => ArrayOption<B>
+export function filter<A>(predicate: Predicate<A>): (fa: ArrayOption<A>) => ArrayOption<A>
+export function filter<A>(predicate: Predicate<A>): (fa: ArrayOption<A>) => ArrayOption<A> {
+  return fa => fa.filter(predicate)
+}
+
+export const filterMap = <A, B>(f: (a: A) => Option<B>) => (fa: ArrayOption<A>): ArrayOption<B> => fa.filterMap(f)
+
+export const partition = <A>(predicate: Predicate<A>) => (
+  fa: ArrayOption<A>
+): Separated<ArrayOption<A>, ArrayOption<A>> => arrayOption.partition(fa, predicate)
+
+export const partitionMap = <A, RL, RR>(f: (a: A) => Either<RL, RR>) => (
+  fa: ArrayOption<A>
+): Separated<ArrayOption<RL>, ArrayOption<RR>> => arrayOption.partitionMap(fa, f)
+
+export const reduce = <A, B>(b: B, f: (b: B, a: A) => B) => (fa: ArrayOption<A>): B => fa.reduce(b, f)
+
+export const foldMap = <M>(M: Monoid<M>) => <A>(f: (a: A) => M) => (fa: ArrayOption<A>): M =>
+  arrayOption.foldMap(M)(fa, f)
+
+export const foldr = <A, B>(b: B, f: (a: A, b: B) => B) => (fa: ArrayOption<A>): B => arrayOption.foldr(fa, b, f)
@@ -0,0 +1,132 @@
+/**
+ * @file A `Clock` is the capability of reading the current time and of waiting. Combinators that need to measure time
+ * (e.g. `time`) or to wait (e.g. `retrying`) accept a `Clock` so that tests can use a deterministic implementation.
+ */
+import { IO } from 'fp-ts/lib/IO'
+import { constVoid } from 'fp-ts/lib/function'
+import { Task } from 'fp-ts/lib/Task'
+import { AbortSignal } from './cancel'
+
+/**
+ * @since 0.0.3
+ */
+export interface Clock {
+  /**
+   * the time in milliseconds, possibly with a fractional part. Only the difference between two readings is meaningful:
+   * the origin depends on the implementation (e.g. an arbitrary point in the past for `hrClock`)
+   */
+  readonly now: IO<number>
+  /**
+   * waits the given amount of milliseconds. Once `signal` is aborted, the timer is cleared and the returned task never
+   * completes
+   */
+  readonly sleep: (ms: number, signal?: AbortSignal) => Task<void>
+}
+
+/**
+ * @since 0.0.3
+ */
+export interface TestClock extends Clock {
+  /** moves the time forward by the given amount of milliseconds */
+  readonly advance: (ms: number) => IO<void>
+}
+
+/**
+ * The sources of monotonic time `getHrClock` can read, from the most to the least precise
+ *
+ * @since 0.0.3
+ */
+export interface HrTimeSources {
+  /** e.g. `process.hrtime` in Node.js */
+  readonly hrtime?: () => [number, number]
+  /** e.g. `performance` in browsers */
+  readonly performance?: { readonly now: () => number }
+}
+
+const sleep = (ms: number, signal?: AbortSignal): Task<void> =>
+  new Task(
+    () =>
+      new Promise(resolve => {
+        if (signal === undefined) {
+          setTimeout(resolve, ms)
+        } else if (!signal.aborted) {
+          const clear = () => clearTimeout(timer)
+          const timer = setTimeout(() => {
+            signal.removeEventListener('abort', clear)
+            resolve()
+          }, ms)
+          signal.addEventListener('abort', clear)
+        }
+      })
+  )
+
+/**
+ * Returns a `Clock` that reads the monotonic time from `hrtime`, or from `performance` when `hrtime` is missing. Falls
+ * back to `Date.now` (which is not monotonic) when both are missing. `sleep` uses `setTimeout`
+ *
+ * @example
+ * import { getHrClock } from 'fp-ts-contrib/lib/Clock'
+ *
+ * const clock = getHrClock({ hrtime: () => [1, 500000] })
+ *
+ * assert.strictEqual(clock.now.run(), 1000.5)
+ *
+ * @since 0.0.3
+ */
+export const getHrClock = (sources: HrTimeSources): Clock => {
+  const { hrtime, performance } = sources
+  const now =
+    hrtime !== undefined
+      ? () => {
+          const [seconds, nanoseconds] = hrtime()
+          return seconds * 1e3 + nanoseconds / 1e6
+        }
+      : performance !== undefined
+      ? () => performance.now()
+      : () => Date.now()
+  return { now: new IO(now), sleep }
+}
+
+// the time sources of the platforms, a platform may define only one of them
+declare const process: { readonly hrtime: () => [number, number] } | undefined
+declare const performance: { readonly now: () => number } | undefined
+
+/**
+ * The `Clock` of the current platform: `getHrClock` with `process.hrtime` (Node.js) and `performance` (browsers)
+ *
+ * @since 0.0.3
+ */
+export const hrClock: Clock = getHrClock({
+  hrtime: typeof process !== 'undefined' ? process.hrtime : undefined,
+  performance: typeof performance !== 'undefined' ? performance : undefined
+})
+
+/**
+ * Returns a deterministic `Clock` whose time only changes when `advance` is run. `sleep` doesn't actually wait: it
+ * advances the time and completes immediately.
+ *
+ * @example
+ * import { getTestClock } from 'fp-ts-contrib/lib/Clock'
+ *
+ * const clock = getTestClock(100)
+ * clock.advance(50).run()
+ *
+ * assert.strictEqual(clock.now.run(), 150)
+ *
+ * @since 0.0.3
+ */
+export const getTestClock = (start: number = 0): TestClock => {
+  let current = start
+  const advance = (ms: number) =>
+    new IO(() => {
+      current += ms
+    })
+  return {
+    now: new IO(() => current),
+    sleep: (ms, signal) =>
+      new Task(() =>
+        signal !== undefined && signal.aborted ? new Promise<void>(constVoid) : Promise.resolve(advance(ms).run())
+      ),
+    advance
+  }
+}
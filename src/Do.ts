@@ -3,6 +3,12 @@
  */
 import { HKT, Type, Type2, URIS, URIS2, URIS3, Type3 } from 'fp-ts/lib/HKT'
 import { Monad, Monad1, Monad2, Monad2C, Monad3, Monad3C } from 'fp-ts/lib/Monad'
+import { Plus, Plus1, Plus2, Plus2C, Plus3, Plus3C } from 'fp-ts/lib/Plus'
+import { Predicate } from 'fp-ts/lib/function'
+
+export type EnforceNonEmptyRecord<R> = keyof R extends never ? never : R
+
+export type Sequenced<M, R> = { [K in keyof R]: [R[K]] extends [HKT<M, infer A>] ? A : never }
 
 export interface Do3<M extends URIS3, S extends object> {
   do: <U, L>(ma: Type3<M, U, L, unknown>) => Do3C<M, S, U, L>
@@ -15,6 +21,14 @@ export interface Do3<M extends URIS3, S extends object> {
     name: Exclude<N, keyof S>,
     f: (s: S) => Type3<M, U, L, A>
   ) => Do3C<M, S & { [K in N]: A }, U, L>
+  let: <N extends string, A>(name: Exclude<N, keyof S>, a: A) => Do3<M, S & { [K in N]: A }>
+  letL: <N extends string, A>(name: Exclude<N, keyof S>, f: (s: S) => A) => Do3<M, S & { [K in N]: A }>
+  sequenceS: <U, L, R extends Record<string, Type3<M, U, L, any>>>(
+    r: EnforceNonEmptyRecord<R> & { [K in keyof S]?: never }
+  ) => Do3C<M, S & { [K in keyof R]: [R[K]] extends [Type3<M, any, any, infer A>] ? A : never }, U, L>
+  sequenceSL: <U, L, R extends Record<string, Type3<M, U, L, any>>>(
+    f: (s: S) => EnforceNonEmptyRecord<R> & { [K in keyof S]?: never }
+  ) => Do3C<M, S & { [K in keyof R]: [R[K]] extends [Type3<M, any, any, infer A>] ? A : never }, U, L>
   return: <A, U, L>(f: (s: S) => A) => Type3<M, U, L, A>
   done: <U, L>() => Type3<M, U, L, S>
 }
@@ -27,6 +41,14 @@ export interface Do3C<M extends URIS3, S extends object, U, L> {
     name: Exclude<N, keyof S>,
     f: (s: S) => Type3<M, U, L, A>
   ) => Do3C<M, S & { [K in N]: A }, U, L>
+  let: <N extends string, A>(name: Exclude<N, keyof S>, a: A) => Do3C<M, S & { [K in N]: A }, U, L>
+  letL: <N extends string, A>(name: Exclude<N, keyof S>, f: (s: S) => A) => Do3C<M, S & { [K in N]: A }, U, L>
+  sequenceS: <R extends Record<string, Type3<M, U, L, any>>>(
+    r: EnforceNonEmptyRecord<R> & { [K in keyof S]?: never }
+  ) => Do3C<M, S & { [K in keyof R]: [R[K]] extends [Type3<M, any, any, infer A>] ? A : never }, U, L>
+  sequenceSL: <R extends Record<string, Type3<M, U, L, any>>>(
+    f: (s: S) => EnforceNonEmptyRecord<R> & { [K in keyof S]?: never }
+  ) => Do3C<M, S & { [K in keyof R]: [R[K]] extends [Type3<M, any, any, infer A>] ? A : never }, U, L>
   return: <A>(f: (s: S) => A) => Type3<M, U, L, A>
   done: () => Type3<M, U, L, S>
 }
@@ -39,6 +61,14 @@ export interface Do2<M extends URIS2, S extends object> {
     name: Exclude<N, keyof S>,
     f: (s: S) => Type2<M, L, A>
   ) => Do2C<M, S & { [K in N]: A }, L>
+  let: <N extends string, A>(name: Exclude<N, keyof S>, a: A) => Do2<M, S & { [K in N]: A }>
+  letL: <N extends string, A>(name: Exclude<N, keyof S>, f: (s: S) => A) => Do2<M, S & { [K in N]: A }>
+  sequenceS: <L, R extends Record<string, Type2<M, L, any>>>(
+    r: EnforceNonEmptyRecord<R> & { [K in keyof S]?: never }
+  ) => Do2C<M, S & { [K in keyof R]: [R[K]] extends [Type2<M, any, infer A>] ? A : never }, L>
+  sequenceSL: <L, R extends Record<string, Type2<M, L, any>>>(
+    f: (s: S) => EnforceNonEmptyRecord<R> & { [K in keyof S]?: never }
+  ) => Do2C<M, S & { [K in keyof R]: [R[K]] extends [Type2<M, any, infer A>] ? A : never }, L>
   return: <A, L>(f: (s: S) => A) => Type2<M, L, A>
   done: <L>() => Type2<M, L, S>
 }
@@ -51,6 +81,14 @@ export interface Do2C<M extends URIS2, S extends object, L> {
     name: Exclude<N, keyof S>,
     f: (s: S) => Type2<M, L, A>
   ) => Do2C<M, S & { [K in N]: A }, L>
+  let: <N extends string, A>(name: Exclude<N, keyof S>, a: A) => Do2C<M, S & { [K in N]: A }, L>
+  letL: <N extends string, A>(name: Exclude<N, keyof S>, f: (s: S) => A) => Do2C<M, S & { [K in N]: A }, L>
+  sequenceS: <R extends Record<string, Type2<M, L, any>>>(
+    r: EnforceNonEmptyRecord<R> & { [K in keyof S]?: never }
+  ) => Do2C<M, S & { [K in keyof R]: [R[K]] extends [Type2<M, any, infer A>] ? A : never }, L>
+  sequenceSL: <R extends Record<string, Type2<M, L, any>>>(
+    f: (s: S) => EnforceNonEmptyRecord<R> & { [K in keyof S]?: never }
+  ) => Do2C<M, S & { [K in keyof R]: [R[K]] extends [Type2<M, any, infer A>] ? A : never }, L>
   return: <A>(f: (s: S) => A) => Type2<M, L, A>
   done: () => Type2<M, L, S>
 }
@@ -60,6 +98,14 @@ export interface Do1<M extends URIS, S extends object> {
   doL: (f: (s: S) => Type<M, unknown>) => Do1<M, S>
   bind: <N extends string, A>(name: Exclude<N, keyof S>, ma: Type<M, A>) => Do1<M, S & { [K in N]: A }>
   bindL: <N extends string, A>(name: Exclude<N, keyof S>, f: (s: S) => Type<M, A>) => Do1<M, S & { [K in N]: A }>
+  let: <N extends string, A>(name: Exclude<N, keyof S>, a: A) => Do1<M, S & { [K in N]: A }>
+  letL: <N extends string, A>(name: Exclude<N, keyof S>, f: (s: S) => A) => Do1<M, S & { [K in N]: A }>
+  sequenceS: <R extends Record<string, Type<M, any>>>(
+    r: EnforceNonEmptyRecord<R> & { [K in keyof S]?: never }
+  ) => Do1<M, S & { [K in keyof R]: [R[K]] extends [Type<M, infer A>] ? A : never }>
+  sequenceSL: <R extends Record<string, Type<M, any>>>(
+    f: (s: S) => EnforceNonEmptyRecord<R> & { [K in keyof S]?: never }
+  ) => Do1<M, S & { [K in keyof R]: [R[K]] extends [Type<M, infer A>] ? A : never }>
   return: <A>(f: (s: S) => A) => Type<M, A>
   done: () => Type<M, S>
 }
@@ -69,50 +115,248 @@ export interface Do0<M, S extends object> {
   doL: (f: (s: S) => HKT<M, unknown>) => Do0<M, S>
   bind: <N extends string, A>(name: Exclude<N, keyof S>, ma: HKT<M, A>) => Do0<M, S & { [K in N]: A }>
   bindL: <N extends string, A>(name: Exclude<N, keyof S>, f: (s: S) => HKT<M, A>) => Do0<M, S & { [K in N]: A }>
+  let: <N extends string, A>(name: Exclude<N, keyof S>, a: A) => Do0<M, S & { [K in N]: A }>
+  letL: <N extends string, A>(name: Exclude<N, keyof S>, f: (s: S) => A) => Do0<M, S & { [K in N]: A }>
+  sequenceS: <R extends Record<string, HKT<M, any>>>(
+    r: EnforceNonEmptyRecord<R> & { [K in keyof S]?: never }
+  ) => Do0<M, S & Sequenced<M, R>>
+  sequenceSL: <R extends Record<string, HKT<M, any>>>(
+    f: (s: S) => EnforceNonEmptyRecord<R> & { [K in keyof S]?: never }
+  ) => Do0<M, S & Sequenced<M, R>>
+  return: <A>(f: (s: S) => A) => HKT<M, A>
+  done: () => HKT<M, S>
+}
+
+export interface DoPlus3<M extends URIS3, S extends object> {
+  do: <U, L>(ma: Type3<M, U, L, unknown>) => DoPlus3C<M, S, U, L>
+  doL: <U, L>(f: (s: S) => Type3<M, U, L, unknown>) => DoPlus3C<M, S, U, L>
+  bind: <N extends string, A, U, L>(
+    name: Exclude<N, keyof S>,
+    ma: Type3<M, U, L, A>
+  ) => DoPlus3C<M, S & { [K in N]: A }, U, L>
+  bindL: <N extends string, A, U, L>(
+    name: Exclude<N, keyof S>,
+    f: (s: S) => Type3<M, U, L, A>
+  ) => DoPlus3C<M, S & { [K in N]: A }, U, L>
+  let: <N extends string, A>(name: Exclude<N, keyof S>, a: A) => DoPlus3<M, S & { [K in N]: A }>
+  letL: <N extends string, A>(name: Exclude<N, keyof S>, f: (s: S) => A) => DoPlus3<M, S & { [K in N]: A }>
+  filter: (p: Predicate<S>) => DoPlus3<M, S>
+  sequenceS: <U, L, R extends Record<string, Type3<M, U, L, any>>>(
+    r: EnforceNonEmptyRecord<R> & { [K in keyof S]?: never }
+  ) => DoPlus3C<M, S & { [K in keyof R]: [R[K]] extends [Type3<M, any, any, infer A>] ? A : never }, U, L>
+  sequenceSL: <U, L, R extends Record<string, Type3<M, U, L, any>>>(
+    f: (s: S) => EnforceNonEmptyRecord<R> & { [K in keyof S]?: never }
+  ) => DoPlus3C<M, S & { [K in keyof R]: [R[K]] extends [Type3<M, any, any, infer A>] ? A : never }, U, L>
+  return: <A, U, L>(f: (s: S) => A) => Type3<M, U, L, A>
+  done: <U, L>() => Type3<M, U, L, S>
+}
+
+export interface DoPlus3C<M extends URIS3, S extends object, U, L> {
+  do: (ma: Type3<M, U, L, unknown>) => DoPlus3C<M, S, U, L>
+  doL: (f: (s: S) => Type3<M, U, L, unknown>) => DoPlus3C<M, S, U, L>
+  bind: <N extends string, A>(
+    name: Exclude<N, keyof S>,
+    ma: Type3<M, U, L, A>
+  ) => DoPlus3C<M, S & { [K in N]: A }, U, L>
+  bindL: <N extends string, A>(
+    name: Exclude<N, keyof S>,
+    f: (s: S) => Type3<M, U, L, A>
+  ) => DoPlus3C<M, S & { [K in N]: A }, U, L>
+  let: <N extends string, A>(name: Exclude<N, keyof S>, a: A) => DoPlus3C<M, S & { [K in N]: A }, U, L>
+  letL: <N extends string, A>(name: Exclude<N, keyof S>, f: (s: S) => A) => DoPlus3C<M, S & { [K in N]: A }, U, L>
+  filter: (p: Predicate<S>) => DoPlus3C<M, S, U, L>
+  sequenceS: <R extends Record<string, Type3<M, U, L, any>>>(
+    r: EnforceNonEmptyRecord<R> & { [K in keyof S]?: never }
+  ) => DoPlus3C<M, S & { [K in keyof R]: [R[K]] extends [Type3<M, any, any, infer A>] ? A : never }, U, L>
+  sequenceSL: <R extends Record<string, Type3<M, U, L, any>>>(
+    f: (s: S) => EnforceNonEmptyRecord<R> & { [K in keyof S]?: never }
+  ) => DoPlus3C<M, S & { [K in keyof R]: [R[K]] extends [Type3<M, any, any, infer A>] ? A : never }, U, L>
+  return: <A>(f: (s: S) => A) => Type3<M, U, L, A>
+  done: () => Type3<M, U, L, S>
+}
+
+export interface DoPlus2<M extends URIS2, S extends object> {
+  do: <L>(ma: Type2<M, L, unknown>) => DoPlus2C<M, S, L>
+  doL: <L>(f: (s: S) => Type2<M, L, unknown>) => DoPlus2C<M, S, L>
+  bind: <N extends string, A, L>(name: Exclude<N, keyof S>, ma: Type2<M, L, A>) => DoPlus2C<M, S & { [K in N]: A }, L>
+  bindL: <N extends string, A, L>(
+    name: Exclude<N, keyof S>,
+    f: (s: S) => Type2<M, L, A>
+  ) => DoPlus2C<M, S & { [K in N]: A }, L>
+  let: <N extends string, A>(name: Exclude<N, keyof S>, a: A) => DoPlus2<M, S & { [K in N]: A }>
+  letL: <N extends string, A>(name: Exclude<N, keyof S>, f: (s: S) => A) => DoPlus2<M, S & { [K in N]: A }>
+  filter: (p: Predicate<S>) => DoPlus2<M, S>
+  sequenceS: <L, R extends Record<string, Type2<M, L, any>>>(
+    r: EnforceNonEmptyRecord<R> & { [K in keyof S]?: never }
+  ) => DoPlus2C<M, S & { [K in keyof R]: [R[K]] extends [Type2<M, any, infer A>] ? A : never }, L>
+  sequenceSL: <L, R extends Record<string, Type2<M, L, any>>>(
+    f: (s: S) => EnforceNonEmptyRecord<R> & { [K in keyof S]?: never }
+  ) => DoPlus2C<M, S & { [K in keyof R]: [R[K]] extends [Type2<M, any, infer A>] ? A : never }, L>
+  return: <A, L>(f: (s: S) => A) => Type2<M, L, A>
+  done: <L>() => Type2<M, L, S>
+}
+
+export interface DoPlus2C<M extends URIS2, S extends object, L> {
+  do: (ma: Type2<M, L, unknown>) => DoPlus2C<M, S, L>
+  doL: (f: (s: S) => Type2<M, L, unknown>) => DoPlus2C<M, S, L>
+  bind: <N extends string, A>(name: Exclude<N, keyof S>, ma: Type2<M, L, A>) => DoPlus2C<M, S & { [K in N]: A }, L>
+  bindL: <N extends string, A>(
+    name: Exclude<N, keyof S>,
+    f: (s: S) => Type2<M, L, A>
+  ) => DoPlus2C<M, S & { [K in N]: A }, L>
+  let: <N extends string, A>(name: Exclude<N, keyof S>, a: A) => DoPlus2C<M, S & { [K in N]: A }, L>
+  letL: <N extends string, A>(name: Exclude<N, keyof S>, f: (s: S) => A) => DoPlus2C<M, S & { [K in N]: A }, L>
+  filter: (p: Predicate<S>) => DoPlus2C<M, S, L>
+  sequenceS: <R extends Record<string, Type2<M, L, any>>>(
+    r: EnforceNonEmptyRecord<R> & { [K in keyof S]?: never }
+  ) => DoPlus2C<M, S & { [K in keyof R]: [R[K]] extends [Type2<M, any, infer A>] ? A : never }, L>
+  sequenceSL: <R extends Record<string, Type2<M, L, any>>>(
+    f: (s: S) => EnforceNonEmptyRecord<R> & { [K in keyof S]?: never }
+  ) => DoPlus2C<M, S & { [K in keyof R]: [R[K]] extends [Type2<M, any, infer A>] ? A : never }, L>
+  return: <A>(f: (s: S) => A) => Type2<M, L, A>
+  done: () => Type2<M, L, S>
+}
+
+export interface DoPlus1<M extends URIS, S extends object> {
+  do: (ma: Type<M, unknown>) => DoPlus1<M, S>
+  doL: (f: (s: S) => Type<M, unknown>) => DoPlus1<M, S>
+  bind: <N extends string, A>(name: Exclude<N, keyof S>, ma: Type<M, A>) => DoPlus1<M, S & { [K in N]: A }>
+  bindL: <N extends string, A>(name: Exclude<N, keyof S>, f: (s: S) => Type<M, A>) => DoPlus1<M, S & { [K in N]: A }>
+  let: <N extends string, A>(name: Exclude<N, keyof S>, a: A) => DoPlus1<M, S & { [K in N]: A }>
+  letL: <N extends string, A>(name: Exclude<N, keyof S>, f: (s: S) => A) => DoPlus1<M, S & { [K in N]: A }>
+  filter: (p: Predicate<S>) => DoPlus1<M, S>
+  sequenceS: <R extends Record<string, Type<M, any>>>(
+    r: EnforceNonEmptyRecord<R> & { [K in keyof S]?: never }
+  ) => DoPlus1<M, S & { [K in keyof R]: [R[K]] extends [Type<M, infer A>] ? A : never }>
+  sequenceSL: <R extends Record<string, Type<M, any>>>(
+    f: (s: S) => EnforceNonEmptyRecord<R> & { [K in keyof S]?: never }
+  ) => DoPlus1<M, S & { [K in keyof R]: [R[K]] extends [Type<M, infer A>] ? A : never }>
+  return: <A>(f: (s: S) => A) => Type<M, A>
+  done: () => Type<M, S>
+}
+
+export interface DoPlus0<M, S extends object> {
+  do: (ma: HKT<M, unknown>) => DoPlus0<M, S>
+  doL: (f: (s: S) => HKT<M, unknown>) => DoPlus0<M, S>
+  bind: <N extends string, A>(name: Exclude<N, keyof S>, ma: HKT<M, A>) => DoPlus0<M, S & { [K in N]: A }>
+  bindL: <N extends string, A>(name: Exclude<N, keyof S>, f: (s: S) => HKT<M, A>) => DoPlus0<M, S & { [K in N]: A }>
+  let: <N extends string, A>(name: Exclude<N, keyof S>, a: A) => DoPlus0<M, S & { [K in N]: A }>
+  letL: <N extends string, A>(name: Exclude<N, keyof S>, f: (s: S) => A) => DoPlus0<M, S & { [K in N]: A }>
+  filter: (p: Predicate<S>) => DoPlus0<M, S>
+  sequenceS: <R extends Record<string, HKT<M, any>>>(
+    r: EnforceNonEmptyRecord<R> & { [K in keyof S]?: never }
+  ) => DoPlus0<M, S & Sequenced<M, R>>
+  sequenceSL: <R extends Record<string, HKT<M, any>>>(
+    f: (s: S) => EnforceNonEmptyRecord<R> & { [K in keyof S]?: never }
+  ) => DoPlus0<M, S & Sequenced<M, R>>
   return: <A>(f: (s: S) => A) => HKT<M, A>
   done: () => HKT<M, S>
 }
 
+const isPlus = <M>(M: Monad<M>): M is Monad<M> & Plus<M> => 'zero' in M
+
+// a computed property is typed with a string index, hence the assertion
+const assign = <S extends object, N extends string, B>(s: S, name: Exclude<N, keyof S>, b: B): S & { [K in N]: B } =>
+  Object.assign({}, s, { [name]: b }) as S & { [K in N]: B }
+
 /**
  * This function provides a simuation of Haskell do notation. The `bind` / `bindL` functions contributes to a threaded
  * scope that is available to each subsequent step. The `do` / `doL` functions can be used to perform computations that
- * add nothing to the scope. The `return` function lifts the given callback to the monad context. Finally the `done`
- * function returns the scope.
+ * add nothing to the scope. The `let` / `letL` functions add pure values to the scope. The `sequenceS` / `sequenceSL`
+ * functions bind all the fields of a record of independent actions at once, combining them with `ap` (so instances with
+ * a parallel `ap`, like `task`, run them concurrently). The `return` function lifts the given callback to the monad
+ * context. Finally the `done` function returns the scope.
+ *
+ * When the instance is also a `Plus` (e.g. an `Alternative`) a `filter` function is available: if the predicate doesn't
+ * hold, the whole computation short-circuits to `zero`.
  *
  * @example
- * import { option, some } from 'fp-ts/lib/Option'
+ * import { option, some, none } from 'fp-ts/lib/Option'
  * import { Do } from 'fp-ts-contrib/lib/Do'
  *
  * // x: Option<number>
  * const x = Do(option) // <- a monad instance
  *   .bindL('foo', () => some('bar'))
  *   .bindL('baz', () => some(4))
- *   .return(({ foo, baz }) => foo.length + baz)
+ *   .letL('len', ({ foo }) => foo.length)
+ *   .return(({ len, baz }) => len + baz)
  *
  * assert.deepStrictEqual(x, some(7))
  *
+ * // y: Option<number>
+ * const y = Do(option)
+ *   .bind('foo', some(3))
+ *   .filter(({ foo }) => foo > 5)
+ *   .return(({ foo }) => foo)
+ *
+ * assert.deepStrictEqual(y, none)
+ *
+ * // z: Option<number>
+ * const z = Do(option)
+ *   .sequenceS({ foo: some(1), bar: some(2) })
+ *   .return(({ foo, bar }) => foo + bar)
+ *
+ * assert.deepStrictEqual(z, some(3))
+ *
  * @since 0.0.2
  */
+export function Do<M extends URIS3>(M: Monad3<M> & Plus3<M>): DoPlus3<M, {}>
+export function Do<M extends URIS3, U, L>(M: Monad3C<M, U, L> & Plus3C<M, U, L>): DoPlus3C<M, {}, U, L>
+export function Do<M extends URIS2>(M: Monad2<M> & Plus2<M>): DoPlus2<M, {}>
+export function Do<M extends URIS2, L>(M: Monad2C<M, L> & Plus2C<M, L>): DoPlus2C<M, {}, L>
+export function Do<M extends URIS>(M: Monad1<M> & Plus1<M>): DoPlus1<M, {}>
+export function Do<M>(M: Monad<M> & Plus<M>): DoPlus0<M, {}>
 export function Do<M extends URIS3>(M: Monad3<M>): Do3<M, {}>
 export function Do<M extends URIS3, U, L>(M: Monad3C<M, U, L>): Do3C<M, {}, U, L>
 export function Do<M extends URIS2>(M: Monad2<M>): Do2<M, {}>
 export function Do<M extends URIS2, L>(M: Monad2C<M, L>): Do2C<M, {}, L>
 export function Do<M extends URIS>(M: Monad1<M>): Do1<M, {}>
 export function Do<M>(M: Monad<M>): Do0<M, {}>
-export function Do<M>(M: Monad<M>): Do0<M, {}> {
-  function toDo<S extends object>(ms: HKT<M, S>): Do0<M, S> {
+// the compiler can't relate the overloads to `Do0<M, {}> | DoPlus0<M, {}>` (it runs out of memory comparing the
+// recursive interfaces), the scope is typed by `toDo`
+export function Do<M>(M: Monad<M>): unknown {
+  // `filter` is only exposed by the overloads when `M` is a `Plus`, otherwise it keeps the scope
+  const zero: <S>(s: S) => HKT<M, S> = isPlus(M) ? M.zero : M.of
+
+  function sequenceS<R extends Record<string, HKT<M, unknown>>>(r: R): HKT<M, Sequenced<M, R>> {
+    return Object.keys(r).reduce(
+      (mo: HKT<M, Record<string, unknown>>, k) => M.ap(M.map(mo, o => (a: unknown) => ({ ...o, [k]: a })), r[k]),
+      M.of({})
+    ) as HKT<M, Sequenced<M, R>>
+  }
+
+  function toDo<S extends object>(ms: HKT<M, S>): DoPlus0<M, S> {
     return {
-      do(mv: HKT<M, unknown>): Do0<M, S> {
+      do(mv: HKT<M, unknown>): DoPlus0<M, S> {
         return toDo(M.chain(ms, a => M.map(mv, () => a)))
       },
-      doL(fmv: (s: S) => HKT<M, unknown>): Do0<M, S> {
+      doL(fmv: (s: S) => HKT<M, unknown>): DoPlus0<M, S> {
         return toDo(M.chain(ms, a => M.map(fmv(a), () => a)))
       },
-      bind<N extends string, B>(name: Exclude<N, keyof S>, mb: HKT<M, B>): Do0<M, S & { [K in N]: B }> {
-        return toDo(M.chain(ms, a => M.map(mb, b => ({ ...(a as object), [name]: b })))) as any
+      bind<N extends string, B>(name: Exclude<N, keyof S>, mb: HKT<M, B>): DoPlus0<M, S & { [K in N]: B }> {
+        return toDo(M.chain(ms, a => M.map(mb, b => assign<S, N, B>(a, name, b))))
+      },
+      bindL<N extends string, B>(name: Exclude<N, keyof S>, fmb: (s: S) => HKT<M, B>): DoPlus0<M, S & { [K in N]: B }> {
+        return toDo(M.chain(ms, a => M.map(fmb(a), b => assign<S, N, B>(a, name, b))))
+      },
+      let<N extends string, B>(name: Exclude<N, keyof S>, b: B): DoPlus0<M, S & { [K in N]: B }> {
+        return toDo(M.map(ms, a => assign<S, N, B>(a, name, b)))
+      },
+      letL<N extends string, B>(name: Exclude<N, keyof S>, f: (s: S) => B): DoPlus0<M, S & { [K in N]: B }> {
+        return toDo(M.map(ms, a => assign<S, N, B>(a, name, f(a))))
+      },
+      sequenceS<R extends Record<string, HKT<M, any>>>(
+        r: EnforceNonEmptyRecord<R> & { [K in keyof S]?: never }
+      ): DoPlus0<M, S & Sequenced<M, R>> {
+        return toDo(M.chain(ms, a => M.map(sequenceS<R>(r), o => ({ ...a, ...o }))))
+      },
+      sequenceSL<R extends Record<string, HKT<M, any>>>(
+        f: (s: S) => EnforceNonEmptyRecord<R> & { [K in keyof S]?: never }
+      ): DoPlus0<M, S & Sequenced<M, R>> {
+        return toDo(M.chain(ms, a => M.map(sequenceS<R>(f(a)), o => ({ ...a, ...o }))))
       },
-      bindL<N extends string, B>(name: Exclude<N, keyof S>, fmb: (s: S) => HKT<M, B>): Do0<M, S & { [K in N]: B }> {
-        return toDo(M.chain(ms, a => M.map(fmb(a), b => ({ ...(a as object), [name]: b })))) as any
+      filter(p: Predicate<S>): DoPlus0<M, S> {
+        return toDo(M.chain(ms, a => (p(a) ? M.of(a) : zero(a))))
       },
       return<B>(f: (s: S) => B): HKT<M, B> {
         return M.map(ms, f)
@@ -1,8 +1,15 @@
-import { Either, either } from 'fp-ts/lib/Either'
+import { Alt2 } from 'fp-ts/lib/Alt'
+import { Applicative } from 'fp-ts/lib/Applicative'
+import { Bifunctor2 } from 'fp-ts/lib/Bifunctor'
+import { Either, either, fromOptionL, left as eitherLeft } from 'fp-ts/lib/Either'
+import { Foldable2v2 } from 'fp-ts/lib/Foldable2v'
+import { HKT } from 'fp-ts/lib/HKT'
 import { Monad2 } from 'fp-ts/lib/Monad'
-import { Option, none as optionNone, some as optionSome } from 'fp-ts/lib/Option'
+import { Monoid } from 'fp-ts/lib/Monoid'
+import { Option, fromNullable as optionFromNullable, none as optionNone, some as optionSome } from 'fp-ts/lib/Option'
 import * as optionT from 'fp-ts/lib/OptionT'
-import { identity } from 'fp-ts/lib/function'
+import { Traversable2v2 } from 'fp-ts/lib/Traversable2v'
+import { Lazy, Predicate, Refinement, identity } from 'fp-ts/lib/function'
 
 declare module 'fp-ts/lib/HKT' {
   interface URI2HKT2<L, A> {
@@ -40,15 +47,39 @@ export class EitherOption<L, A> {
   getOrElse(a: A): Either<L, A> {
     return this.fold(a, identity)
   }
+  mapLeft<M>(f: (l: L) => M): EitherOption<M, A> {
+    return new EitherOption(this.value.mapLeft(f))
+  }
+  bimap<M, B>(f: (l: L) => M, g: (a: A) => B): EitherOption<M, B> {
+    return new EitherOption(this.value.bimap(f, o => o.map(g)))
+  }
+  orElse(f: Lazy<EitherOption<L, A>>): EitherOption<L, A> {
+    return this.value.isRight() && this.value.value.isSome() ? this : f()
+  }
+  alt(fy: EitherOption<L, A>): EitherOption<L, A> {
+    return this.orElse(() => fy)
+  }
+  toEither(onNone: Lazy<L>): Either<L, A> {
+    return this.value.chain(fromOptionL(onNone))
+  }
+  reduce<B>(b: B, f: (b: B, a: A) => B): B {
+    return this.value.fold(() => b, o => o.fold(b, a => f(b, a)))
+  }
 }
 
-const map = <L, A, B>(fa: EitherOption<L, A>, f: (a: A) => B): EitherOption<L, B> => fa.map(f)
-
 const of = <L, A>(a: A): EitherOption<L, A> => new EitherOption(T.of(a))
 
-const ap = <L, A, B>(fab: EitherOption<L, (a: A) => B>, fa: EitherOption<L, A>): EitherOption<L, B> => fa.ap(fab)
+const traverse = <F>(F: Applicative<F>) => <L, A, B>(
+  ta: EitherOption<L, A>,
+  f: (a: A) => HKT<F, B>
+): HKT<F, EitherOption<L, B>> =>
+  ta.value.fold(
+    l => F.of(left(l)),
+    o => o.foldL(() => F.of(fromOption<L, B>(optionNone)), a => F.map(f(a), b => some<L, B>(b)))
+  )
 
-const chain = <L, A, B>(fa: EitherOption<L, A>, f: (a: A) => EitherOption<L, B>): EitherOption<L, B> => fa.chain(f)
+const sequence = <F>(F: Applicative<F>) => <L, A>(ta: EitherOption<L, HKT<F, A>>): HKT<F, EitherOption<L, A>> =>
+  traverse(F)(ta, identity)
 
 export const some = of
 
@@ -58,10 +89,66 @@ export const fromOption = <L, A>(ma: Option<A>): EitherOption<L, A> => new Eithe
 
 export const fromEither = <L, A>(ma: Either<L, A>): EitherOption<L, A> => new EitherOption(ma.map(optionSome))
 
-export const eitherOption: Monad2<URI> = {
+export const left = <L, A>(l: L): EitherOption<L, A> => new EitherOption(eitherLeft(l))
+
+export const fromNullable = <L, A>(a: A | null | undefined): EitherOption<L, A> => fromOption(optionFromNullable(a))
+
+export function fromPredicate<L, A, B extends A>(predicate: Refinement<A, B>): (a: A) => EitherOption<L, B>
+export function fromPredicate<L, A>(predicate: Predicate<A>): (a: A) => EitherOption<L, A>
+export function fromPredicate<L, A>(predicate: Predicate<A>): (a: A) => EitherOption<L, A> {
+  return a => fromOption(predicate(a) ? optionSome(a) : optionNone)
+}
+
+export const eitherOption: Monad2<URI> & Bifunctor2<URI> & Alt2<URI> & Foldable2v2<URI> & Traversable2v2<URI> = {
   URI,
-  map,
+  map: (fa, f) => fa.map(f),
   of,
-  ap,
-  chain
+  ap: (fab, fa) => fa.ap(fab),
+  chain: (fa, f) => fa.chain(f),
+  bimap: (fla, f, g) => fla.bimap(f, g),
+  alt: (fx, fy) => fx.alt(fy),
+  reduce: (fa, b, f) => fa.reduce(b, f),
+  foldMap: M => (fa, f) => fa.reduce(M.empty, (m, a) => M.concat(m, f(a))),
+  foldr: (fa, b, f) => fa.reduce(b, (b, a) => f(a, b)),
+  traverse,
+  sequence
 }
+
+//
+// pipeables
+//
+
+export const map = <A, B>(f: (a: A) => B) => <L>(fa: EitherOption<L, A>): EitherOption<L, B> => fa.map(f)
+
+export const ap = <L, A>(fa: EitherOption<L, A>) => <B>(fab: EitherOption<L, (a: A) => B>): EitherOption<L, B> =>
+  fa.ap(fab)
+
+export const chain = <L, A, B>(f: (a: A) => EitherOption<L, B>) => (ma: EitherOption<L, A>): EitherOption<L, B> =>
+  ma.chain(f)
+
+export const flatten = <L, A>(mma: EitherOption<L, EitherOption<L, A>>): EitherOption<L, A> => mma.chain(identity)
+
+export const mapLeft = <L, M>(f: (l: L) => M) => <A>(fa: EitherOption<L, A>): EitherOption<M, A> => fa.mapLeft(f)
+
+export const bimap = <L, M, A, B>(f: (l: L) => M, g: (a: A) => B) => (fa: EitherOption<L, A>): EitherOption<M, B> =>
+  fa.bimap(f, g)
+
+export const alt = <L, A>(fy: EitherOption<L, A>) => (fx: EitherOption<L, A>): EitherOption<L, A> => fx.alt(fy)
+
+export const orElse = <L, A>(f: Lazy<EitherOption<L, A>>) => (fa: EitherOption<L, A>): EitherOption<L, A> =>
+  fa.orElse(f)
+
+export const fold = <A, R>(onNone: R, onSome: (a: A) => R) => <L>(ma: EitherOption<L, A>): Either<L, R> =>
+  ma.fold(onNone, onSome)
+
+export const getOrElse = <A>(a: A) => <L>(ma: EitherOption<L, A>): Either<L, A> => ma.getOrElse(a)
+
+export const toEither = <L>(onNone: Lazy<L>) => <A>(ma: EitherOption<L, A>): Either<L, A> => ma.toEither(onNone)
+
+export const reduce = <A, B>(b: B, f: (b: B, a: A) => B) => <L>(fa: EitherOption<L, A>): B => fa.reduce(b, f)
+
+export const foldMap = <M>(M: Monoid<M>) => <A>(f: (a: A) => M) => <L>(fa: EitherOption<L, A>): M =>
+  eitherOption.foldMap(M)(fa, f)
+
+export const foldr = <A, B>(b: B, f: (a: A, b: B) => B) => <L>(fa: EitherOption<L, A>): B =>
+  eitherOption.foldr(fa, b, f)
@@ -0,0 +1,107 @@
+/**
+ * @file Minimal optics used to focus a state computation on a part of a larger state, see `zoom` in `StateIO` and
+ * `StateTaskEither`.
+ *
+ * A `Lens<S, A>` focuses on a part `A` which is always present in `S`, an `Optional<S, A>` on a part which may be
+ * missing.
+ */
+import { Option, fromNullable } from 'fp-ts/lib/Option'
+
+/**
+ * @since 0.0.3
+ */
+export interface Lens<S, A> {
+  readonly get: (s: S) => A
+  readonly set: (a: A) => (s: S) => S
+}
+
+/**
+ * @since 0.0.3
+ */
+export interface Optional<S, A> {
+  readonly getOption: (s: S) => Option<A>
+  readonly set: (a: A) => (s: S) => S
+}
+
+/**
+ * @since 0.0.3
+ */
+export const lens = <S, A>(get: (s: S) => A, set: (a: A) => (s: S) => S): Lens<S, A> => ({ get, set })
+
+/**
+ * @since 0.0.3
+ */
+export const optional = <S, A>(getOption: (s: S) => Option<A>, set: (a: A) => (s: S) => S): Optional<S, A> => ({
+  getOption,
+  set
+})
+
+/**
+ * Returns a `Lens` focused on the given key of a record. The whole type is fixed first so that the key (and the type
+ * of the focused part) can be inferred
+ *
+ * @example
+ * import { focus } from 'fp-ts-contrib/lib/Lens'
+ *
+ * interface Vars {
+ *   var1: number
+ *   var2: number
+ * }
+ *
+ * const var1 = focus<Vars>()('var1')
+ *
+ * assert.strictEqual(var1.get({ var1: 1, var2: 2 }), 1)
+ * assert.deepStrictEqual(var1.set(3)({ var1: 1, var2: 2 }), { var1: 3, var2: 2 })
+ *
+ * @since 0.0.3
+ */
+export const focus = <S>() => <K extends keyof S>(k: K): Lens<S, S[K]> => {
+  return lens(s => s[k], a => s => Object.assign({}, s, { [k]: a }))
+}
+
+/**
+ * Like `focus` but for keys whose value may be `null` or `undefined`
+ *
+ * @example
+ * import { focusOptional } from 'fp-ts-contrib/lib/Lens'
+ * import { none, some } from 'fp-ts/lib/Option'
+ *
+ * interface User {
+ *   name: string
+ *   email?: string
+ * }
+ *
+ * const email = focusOptional<User>()('email')
+ *
+ * assert.deepStrictEqual(email.getOption({ name: 'bob', email: 'bob@example.com' }), some('bob@example.com'))
+ * assert.deepStrictEqual(email.getOption({ name: 'bob' }), none)
+ *
+ * @since 0.0.3
+ */
+export const focusOptional = <S>() => <K extends keyof S>(k: K): Optional<S, NonNullable<S[K]>> => {
+  return optional(s => fromNullable(s[k]) as Option<NonNullable<S[K]>>, a => s => Object.assign({}, s, { [k]: a }))
+}
+
+/**
+ * Composes two lenses, focusing on a part of a part
+ *
+ * @example
+ * import { composeLens, focus } from 'fp-ts-contrib/lib/Lens'
+ *
+ * interface Inner {
+ *   count: number
+ * }
+ *
+ * interface Outer {
+ *   inner: Inner
+ * }
+ *
+ * const count = composeLens(focus<Outer>()('inner'), focus<Inner>()('count'))
+ *
+ * assert.deepStrictEqual(count.set(2)({ inner: { count: 1 } }), { inner: { count: 2 } })
+ *
+ * @since 0.0.3
+ */
+export const composeLens = <S, A, B>(sa: Lens<S, A>, ab: Lens<A, B>): Lens<S, B> => {
+  return lens(s => ab.get(sa.get(s)), b => s => sa.set(ab.set(b)(sa.get(s)))(s))
+}
@@ -1,7 +1,12 @@
-import { Either, either } from 'fp-ts/lib/Either'
+import { Alt3 } from 'fp-ts/lib/Alt'
+import { Bifunctor3 } from 'fp-ts/lib/Bifunctor'
+import { ChainRec3 } from 'fp-ts/lib/ChainRec'
+import { Either, either, left as eitherLeft, tryCatch2v } from 'fp-ts/lib/Either'
 import { Monad3 } from 'fp-ts/lib/Monad'
+import { Option } from 'fp-ts/lib/Option'
 import { Reader } from 'fp-ts/lib/Reader'
 import * as readerT from 'fp-ts/lib/ReaderT'
+import { Predicate, Refinement, identity } from 'fp-ts/lib/function'
 
 const readerTEither = readerT.getReaderT2v(either)
 
@@ -22,36 +27,79 @@ export class ReaderEither<E, L, A> {
   readonly _URI!: URI
   constructor(readonly run: (e: E) => Either<L, A>) {}
   map<B>(f: (a: A) => B): ReaderEither<E, L, B> {
-    return new ReaderEither(readerTEither.map(this.run, f))
+    return this.chain(a => of(f(a)))
   }
   of<E, B>(b: B): ReaderEither<E, L, B> {
     return of(b)
   }
   ap<B>(fab: ReaderEither<E, L, (a: A) => B>): ReaderEither<E, L, B> {
-    return new ReaderEither(readerTEither.ap(fab.run, this.run))
+    return fab.chain(f => this.map(f))
   }
   ap_<B, C>(this: ReaderEither<E, L, (b: B) => C>, fb: ReaderEither<E, L, B>): ReaderEither<E, L, C> {
     return fb.ap(this)
   }
   chain<B>(f: (a: A) => ReaderEither<E, L, B>): ReaderEither<E, L, B> {
-    return new ReaderEither(readerTEither.chain(this.run, a => f(a).run))
+    return new Bind(this, f)
+  }
+  fold<R>(left: (l: L) => R, right: (a: A) => R): Reader<E, R> {
+    return new Reader(e => this.run(e).fold(left, right))
+  }
+  getOrElse(a: A): Reader<E, A> {
+    return new Reader(e => this.run(e).getOrElse(a))
+  }
+  mapLeft<M>(f: (l: L) => M): ReaderEither<E, M, A> {
+    return new ReaderEither(e => this.run(e).mapLeft(f))
+  }
+  bimap<M, B>(f: (l: L) => M, g: (a: A) => B): ReaderEither<E, M, B> {
+    return new ReaderEither(e => this.run(e).bimap(f, g))
+  }
+  orElse<M>(f: (l: L) => ReaderEither<E, M, A>): ReaderEither<E, M, A> {
+    return new ReaderEither(e => this.run(e).fold(l => f(l).run(e), a => either.of<M, A>(a)))
+  }
+  alt(fy: ReaderEither<E, L, A>): ReaderEither<E, L, A> {
+    return this.orElse(() => fy)
+  }
+  local<E2>(f: (e: E2) => E): ReaderEither<E2, L, A> {
+    return new ReaderEither(e => this.run(f(e)))
   }
 }
 
-const map = <E, L, A, B>(fa: ReaderEither<E, L, A>, f: (a: A) => B): ReaderEither<E, L, B> => {
-  return fa.map(f)
+/**
+ * A `chain` node, run by `runLoop` without growing the stack; the loop stops at the first `Left`
+ */
+class Bind<E, L, A, B> extends ReaderEither<E, L, B> {
+  constructor(readonly fa: ReaderEither<E, L, A>, readonly f: (a: A) => ReaderEither<E, L, B>) {
+    super(e => runLoop(fa, e, [f]))
+  }
 }
 
-const of = <E, L, A>(a: A): ReaderEither<E, L, A> => {
-  return new ReaderEither(readerTEither.of(a))
+const runLoop = <E, L>(
+  fa: ReaderEither<E, L, any>,
+  e: E,
+  stack: Array<(a: any) => ReaderEither<E, L, any>>
+): Either<L, any> => {
+  let current = fa
+  while (true) {
+    if (current instanceof Bind) {
+      stack.push(current.f)
+      current = current.fa
+    } else {
+      const ea = current.run(e)
+      const f = stack.pop()
+      if (ea.isLeft() || f === undefined) {
+        return ea
+      }
+      current = f(ea.value)
+    }
+  }
 }
 
-const ap = <E, L, A, B>(fab: ReaderEither<E, L, (a: A) => B>, fa: ReaderEither<E, L, A>): ReaderEither<E, L, B> => {
-  return fa.ap(fab)
+const of = <E, L, A>(a: A): ReaderEither<E, L, A> => {
+  return new ReaderEither(readerTEither.of(a))
 }
 
-const chain = <E, L, A, B>(fa: ReaderEither<E, L, A>, f: (a: A) => ReaderEither<E, L, B>): ReaderEither<E, L, B> => {
-  return fa.chain(f)
+export const tailRecM = <E, L, A, B>(a: A, f: (a: A) => ReaderEither<E, L, Either<A, B>>): ReaderEither<E, L, B> => {
+  return f(a).chain(e => e.fold(a => tailRecM(a, f), b => of<E, L, B>(b)))
 }
 
 export const ask = <E, L>(): ReaderEither<E, L, E> => {
@@ -62,8 +110,8 @@ export const asks = <E, L, A>(f: (e: E) => A): ReaderEither<E, L, A> => {
   return new ReaderEither(e => either.of(f(e)))
 }
 
-export const local = <E>(f: (e: E) => E) => <L, A>(fa: ReaderEither<E, L, A>): ReaderEither<E, L, A> => {
-  return new ReaderEither(e => fa.run(f(e)))
+export const local = <E, E2 = E>(f: (e: E2) => E) => <L, A>(fa: ReaderEither<E, L, A>): ReaderEither<E2, L, A> => {
+  return fa.local(f)
 }
 
 export const fromEither = <E, L, A>(fa: Either<L, A>): ReaderEither<E, L, A> => {
@@ -75,14 +123,102 @@ export const fromReader = <E, L, A>(fa: Reader<E, A>): ReaderEither<E, L, A> =>
   return new ReaderEither(readerTfromReader(fa))
 }
 
-export const alt = <E, L, A>(fx: ReaderEither<E, L, A>, fy: ReaderEither<E, L, A>): ReaderEither<E, L, A> => {
-  return new ReaderEither(e => fx.run(e).alt(fy.run(e)))
+export const fromLeft = <E, L, A>(l: L): ReaderEither<E, L, A> => {
+  return new ReaderEither(() => eitherLeft(l))
+}
+
+export const left = <E, L, A>(fl: Reader<E, L>): ReaderEither<E, L, A> => {
+  return new ReaderEither(e => eitherLeft(fl.run(e)))
+}
+
+export const fromOption = <E, L, A>(fa: Option<A>, l: L): ReaderEither<E, L, A> => {
+  return fa.foldL(() => fromLeft(l), a => of(a))
+}
+
+export function fromPredicate<E, L, A, B extends A>(
+  predicate: Refinement<A, B>,
+  onFalse: (a: A) => L
+): (a: A) => ReaderEither<E, L, B>
+export function fromPredicate<E, L, A>(predicate: Predicate<A>, onFalse: (a: A) => L): (a: A) => ReaderEither<E, L, A>
+export function fromPredicate<E, L, A>(predicate: Predicate<A>, onFalse: (a: A) => L): (a: A) => ReaderEither<E, L, A> {
+  return a => (predicate(a) ? of(a) : fromLeft(onFalse(a)))
+}
+
+export const tryCatch = <E, L, A>(f: (e: E) => A, onerror: (reason: unknown, e: E) => L): ReaderEither<E, L, A> => {
+  return new ReaderEither(e => tryCatch2v(() => f(e), reason => onerror(reason, e)))
 }
 
-export const readerEither: Monad3<URI> = {
+export const readerEither: Monad3<URI> &
+  Bifunctor3<URI> &
+  Alt3<URI> &
+  ChainRec3<URI> & {
+    throwError: <E, L, A>(e: L) => ReaderEither<E, L, A>
+    fromEither: <E, L, A>(e: Either<L, A>) => ReaderEither<E, L, A>
+    fromOption: <E, L, A>(o: Option<A>, e: L) => ReaderEither<E, L, A>
+  } = {
   URI,
-  map,
+  map: (fa, f) => fa.map(f),
   of,
-  ap,
-  chain
+  ap: (fab, fa) => fa.ap(fab),
+  chain: (fa, f) => fa.chain(f),
+  bimap: (fla, f, g) => fla.bimap(f, g),
+  alt: (fx, fy) => fx.alt(fy),
+  chainRec: tailRecM,
+  throwError: fromLeft,
+  fromEither,
+  fromOption
+}
+
+//
+// pipeables
+//
+
+export const map = <A, B>(f: (a: A) => B) => <E, L>(fa: ReaderEither<E, L, A>): ReaderEither<E, L, B> => {
+  return fa.map(f)
+}
+
+export const ap = <E, L, A>(fa: ReaderEither<E, L, A>) => <B>(
+  fab: ReaderEither<E, L, (a: A) => B>
+): ReaderEither<E, L, B> => {
+  return fa.ap(fab)
+}
+
+export const chain = <E, L, A, B>(f: (a: A) => ReaderEither<E, L, B>) => (
+  ma: ReaderEither<E, L, A>
+): ReaderEither<E, L, B> => {
+  return ma.chain(f)
+}
+
+export const flatten = <E, L, A>(mma: ReaderEither<E, L, ReaderEither<E, L, A>>): ReaderEither<E, L, A> => {
+  return mma.chain(identity)
+}
+
+export const mapLeft = <L, M>(f: (l: L) => M) => <E, A>(fa: ReaderEither<E, L, A>): ReaderEither<E, M, A> => {
+  return fa.mapLeft(f)
+}
+
+export const bimap = <L, M, A, B>(f: (l: L) => M, g: (a: A) => B) => <E>(
+  fa: ReaderEither<E, L, A>
+): ReaderEither<E, M, B> => {
+  return fa.bimap(f, g)
+}
+
+export const alt = <E, L, A>(fy: ReaderEither<E, L, A>) => (fx: ReaderEither<E, L, A>): ReaderEither<E, L, A> => {
+  return fx.alt(fy)
+}
+
+export const orElse = <E, L, M, A>(f: (l: L) => ReaderEither<E, M, A>) => (
+  fa: ReaderEither<E, L, A>
+): ReaderEither<E, M, A> => {
+  return fa.orElse(f)
+}
+
+export const fold = <L, A, R>(left: (l: L) => R, right: (a: A) => R) => <E>(
+  ma: ReaderEither<E, L, A>
+): Reader<E, R> => {
+  return ma.fold(left, right)
+}
+
+export const getOrElse = <A>(a: A) => <E, L>(ma: ReaderEither<E, L, A>): Reader<E, A> => {
+  return ma.getOrElse(a)
 }
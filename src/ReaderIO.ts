@@ -1,7 +1,11 @@
+import { ChainRec2 } from 'fp-ts/lib/ChainRec'
+import { Either } from 'fp-ts/lib/Either'
 import { IO, io } from 'fp-ts/lib/IO'
 import { Monad2 } from 'fp-ts/lib/Monad'
+import { MonadIO2 } from 'fp-ts/lib/MonadIO'
 import { Reader } from 'fp-ts/lib/Reader'
 import * as readerT from 'fp-ts/lib/ReaderT'
+import { identity } from 'fp-ts/lib/function'
 
 const readerTIO = readerT.getReaderT2v(io)
 
@@ -21,36 +25,57 @@ export class ReaderIO<E, A> {
   readonly _URI!: URI
   constructor(readonly run: (e: E) => IO<A>) {}
   map<B>(f: (a: A) => B): ReaderIO<E, B> {
-    return new ReaderIO(readerTIO.map(this.run, f))
+    return this.chain(a => of(f(a)))
   }
   of<E, B>(b: B): ReaderIO<E, B> {
     return of(b)
   }
   ap<B>(fab: ReaderIO<E, (a: A) => B>): ReaderIO<E, B> {
-    return new ReaderIO(readerTIO.ap(fab.run, this.run))
+    return fab.chain(f => this.map(f))
   }
   ap_<B, C>(this: ReaderIO<E, (b: B) => C>, fb: ReaderIO<E, B>): ReaderIO<E, C> {
     return fb.ap(this)
   }
   chain<B>(f: (a: A) => ReaderIO<E, B>): ReaderIO<E, B> {
-    return new ReaderIO(readerTIO.chain(this.run, a => f(a).run))
+    return new Bind(this, f)
+  }
+  local<E2>(f: (e: E2) => E): ReaderIO<E2, A> {
+    return new ReaderIO(e => this.run(f(e)))
   }
 }
 
-const map = <E, A, B>(fa: ReaderIO<E, A>, f: (a: A) => B): ReaderIO<E, B> => {
-  return fa.map(f)
+/**
+ * Binds are not run by nesting closures: `runLoop` walks them with its own stack of continuations
+ */
+class Bind<E, A, B> extends ReaderIO<E, B> {
+  constructor(readonly fa: ReaderIO<E, A>, readonly f: (a: A) => ReaderIO<E, B>) {
+    super(e => new IO(() => runLoop(fa, e, [f])))
+  }
 }
 
-const of = <E, A>(a: A): ReaderIO<E, A> => {
-  return new ReaderIO(readerTIO.of(a))
+const runLoop = <E>(fa: ReaderIO<E, any>, e: E, stack: Array<(a: any) => ReaderIO<E, any>>): any => {
+  let current = fa
+  while (true) {
+    if (current instanceof Bind) {
+      stack.push(current.f)
+      current = current.fa
+    } else {
+      const a = current.run(e).run()
+      const f = stack.pop()
+      if (f === undefined) {
+        return a
+      }
+      current = f(a)
+    }
+  }
 }
 
-const ap = <E, A, B>(fab: ReaderIO<E, (a: A) => B>, fa: ReaderIO<E, A>): ReaderIO<E, B> => {
-  return fa.ap(fab)
+const of = <E, A>(a: A): ReaderIO<E, A> => {
+  return new ReaderIO(readerTIO.of(a))
 }
 
-const chain = <E, A, B>(fa: ReaderIO<E, A>, f: (a: A) => ReaderIO<E, B>): ReaderIO<E, B> => {
-  return fa.chain(f)
+export const tailRecM = <E, A, B>(a: A, f: (a: A) => ReaderIO<E, Either<A, B>>): ReaderIO<E, B> => {
+  return f(a).chain(e => e.fold(a => tailRecM(a, f), b => of<E, B>(b)))
 }
 
 export const ask = <E>(): ReaderIO<E, E> => {
@@ -61,8 +86,18 @@ export const asks = <E, A>(f: (e: E) => A): ReaderIO<E, A> => {
   return new ReaderIO(e => io.of(f(e)))
 }
 
-export const local = <E>(f: (e: E) => E) => <A>(fa: ReaderIO<E, A>): ReaderIO<E, A> => {
-  return new ReaderIO(e => fa.run(f(e)))
+export const local = <E, E2 = E>(f: (e: E2) => E) => <A>(fa: ReaderIO<E, A>): ReaderIO<E2, A> => {
+  return fa.local(f)
+}
+
+export const provide = <E>(e: E) => <R, A>(fa: ReaderIO<E, A>): ReaderIO<R, A> => {
+  return new ReaderIO(() => fa.run(e))
+}
+
+export const provideSome = <P extends object>(p: P) => <E extends P, A>(
+  fa: ReaderIO<E, A>
+): ReaderIO<Pick<E, Exclude<keyof E, keyof P>>, A> => {
+  return new ReaderIO(e => fa.run({ ...(e as object), ...(p as object) } as E))
 }
 
 export const fromIO = <E, A>(fa: IO<A>): ReaderIO<E, A> => {
@@ -74,10 +109,66 @@ export const fromReader = <E, A>(fa: Reader<E, A>): ReaderIO<E, A> => {
   return new ReaderIO(readerTfromReader(fa))
 }
 
-export const readerIO: Monad2<URI> = {
+export const bracket = <E, A, B>(
+  acquire: ReaderIO<E, A>,
+  use: (a: A) => ReaderIO<E, B>,
+  release: (a: A) => ReaderIO<E, void>
+): ReaderIO<E, B> => {
+  return acquire.chain(
+    a =>
+      new ReaderIO(
+        e =>
+          new IO(() => {
+            const runRelease = () =>
+              release(a)
+                .run(e)
+                .run()
+            let b: B
+            try {
+              b = use(a)
+                .run(e)
+                .run()
+            } catch (error) {
+              try {
+                runRelease()
+              } catch {
+                // the exception thrown by `use` wins over the one thrown by `release`
+              }
+              throw error
+            }
+            runRelease()
+            return b
+          })
+      )
+  )
+}
+
+export const readerIO: Monad2<URI> & MonadIO2<URI> & ChainRec2<URI> = {
   URI,
-  map,
+  map: (fa, f) => fa.map(f),
   of,
-  ap,
-  chain
+  ap: (fab, fa) => fa.ap(fab),
+  chain: (fa, f) => fa.chain(f),
+  fromIO,
+  chainRec: tailRecM
+}
+
+//
+// pipeables
+//
+
+export const map = <A, B>(f: (a: A) => B) => <E>(fa: ReaderIO<E, A>): ReaderIO<E, B> => {
+  return fa.map(f)
+}
+
+export const ap = <E, A>(fa: ReaderIO<E, A>) => <B>(fab: ReaderIO<E, (a: A) => B>): ReaderIO<E, B> => {
+  return fa.ap(fab)
+}
+
+export const chain = <E, A, B>(f: (a: A) => ReaderIO<E, B>) => (ma: ReaderIO<E, A>): ReaderIO<E, B> => {
+  return ma.chain(f)
+}
+
+export const flatten = <E, A>(mma: ReaderIO<E, ReaderIO<E, A>>): ReaderIO<E, A> => {
+  return mma.chain(identity)
 }
@@ -0,0 +1,6 @@
+/**
+ * @file `ReaderTaskEither` is provided by `fp-ts` (see `fp-ts/lib/ReaderTaskEither`), this module re-exports it so that
+ * it can be imported along with the other stacks of this library. Its `readerTaskEither` instance is a `Monad3`,
+ * `Bifunctor3`, `Alt3`, `MonadIO3` and `MonadTask3`, so it works with `Do`, `batchTraverseM` and `time`.
+ */
+export * from 'fp-ts/lib/ReaderTaskEither'
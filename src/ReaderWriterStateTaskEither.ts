@@ -0,0 +1,181 @@
+import { Either } from 'fp-ts/lib/Either'
+import { IO } from 'fp-ts/lib/IO'
+import { MonadIO3C } from 'fp-ts/lib/MonadIO'
+import { MonadTask3C } from 'fp-ts/lib/MonadTask'
+import { Monoid } from 'fp-ts/lib/Monoid'
+import { Task } from 'fp-ts/lib/Task'
+import * as taskEither from 'fp-ts/lib/TaskEither'
+import { Endomorphism, phantom, tuple } from 'fp-ts/lib/function'
+import TaskEither = taskEither.TaskEither
+
+declare module 'fp-ts/lib/HKT' {
+  interface URI2HKT3<U, L, A> {
+    // `U` packs the environment, the log and the state, see `getMonad`
+    ReaderWriterStateTaskEither: [U] extends [[infer R, infer W, infer S]]
+      ? ReaderWriterStateTaskEither<R, W, S, L, A>
+      : never
+  }
+}
+
+export const URI = 'ReaderWriterStateTaskEither'
+
+export type URI = typeof URI
+
+const triple = <A, S, W>(a: A, s: S, w: W): [A, S, W] => [a, s, w]
+
+export class ReaderWriterStateTaskEither<R, W, S, L, A> {
+  readonly _A!: A
+  readonly _L!: L
+  readonly _U!: [R, W, S]
+  readonly _URI!: URI
+  constructor(readonly value: (r: R, s: S) => TaskEither<L, [A, S, W]>) {}
+  run(r: R, s: S): Promise<Either<L, [A, S, W]>> {
+    return this.value(r, s).run()
+  }
+  eval(r: R, s: S): Promise<Either<L, [A, W]>> {
+    return this.run(r, s).then(e => e.map(([a, _, w]) => tuple(a, w)))
+  }
+  exec(r: R, s: S): Promise<Either<L, [S, W]>> {
+    return this.run(r, s).then(e => e.map(([_, s, w]) => tuple(s, w)))
+  }
+  map<B>(f: (a: A) => B): ReaderWriterStateTaskEither<R, W, S, L, B> {
+    return new ReaderWriterStateTaskEither((r, s) => this.value(r, s).map(([a, s1, w]) => triple(f(a), s1, w)))
+  }
+  mapLeft<M>(f: (l: L) => M): ReaderWriterStateTaskEither<R, W, S, M, A> {
+    return new ReaderWriterStateTaskEither((r, s) => this.value(r, s).mapLeft(f))
+  }
+  orElse<M>(f: (l: L) => ReaderWriterStateTaskEither<R, W, S, M, A>): ReaderWriterStateTaskEither<R, W, S, M, A> {
+    return new ReaderWriterStateTaskEither((r, s) => this.value(r, s).orElse(l => f(l).value(r, s)))
+  }
+  local<R2>(f: (r: R2) => R): ReaderWriterStateTaskEither<R2, W, S, L, A> {
+    return new ReaderWriterStateTaskEither((r, s) => this.value(f(r), s))
+  }
+  listen(): ReaderWriterStateTaskEither<R, W, S, L, [A, W]> {
+    return new ReaderWriterStateTaskEither((r, s) => this.value(r, s).map(([a, s1, w]) => triple(tuple(a, w), s1, w)))
+  }
+  censor(f: Endomorphism<W>): ReaderWriterStateTaskEither<R, W, S, L, A> {
+    return new ReaderWriterStateTaskEither((r, s) => this.value(r, s).map(([a, s1, w]) => triple(a, s1, f(w))))
+  }
+}
+
+export const local = <R, R2 = R>(f: (r: R2) => R) => <W, S, L, A>(
+  fa: ReaderWriterStateTaskEither<R, W, S, L, A>
+): ReaderWriterStateTaskEither<R2, W, S, L, A> => {
+  return fa.local(f)
+}
+
+export const tell = <R, W, S, L>(w: W): ReaderWriterStateTaskEither<R, W, S, L, void> => {
+  return new ReaderWriterStateTaskEither((_, s) => taskEither.taskEither.of(triple(undefined, s, w)))
+}
+
+export const listen = <R, W, S, L, A>(
+  fa: ReaderWriterStateTaskEither<R, W, S, L, A>
+): ReaderWriterStateTaskEither<R, W, S, L, [A, W]> => {
+  return fa.listen()
+}
+
+export const censor = <W>(f: Endomorphism<W>) => <R, S, L, A>(
+  fa: ReaderWriterStateTaskEither<R, W, S, L, A>
+): ReaderWriterStateTaskEither<R, W, S, L, A> => {
+  return fa.censor(f)
+}
+
+export const fromLeft = <R, W, S, L, A>(l: L): ReaderWriterStateTaskEither<R, W, S, L, A> => {
+  return new ReaderWriterStateTaskEither(() => taskEither.fromLeft(l))
+}
+
+const fromState = <R, W, S, L, A>(
+  M: Monoid<W>,
+  f: (r: R, s: S) => [A, S]
+): ReaderWriterStateTaskEither<R, W, S, L, A> =>
+  new ReaderWriterStateTaskEither((r, s) => {
+    const [a, s1] = f(r, s)
+    return taskEither.taskEither.of(triple(a, s1, M.empty))
+  })
+
+export const ask = <R, W, S, L>(M: Monoid<W>): ReaderWriterStateTaskEither<R, W, S, L, R> => {
+  return fromState(M, (r, s) => tuple(r, s))
+}
+
+export const asks = <W>(M: Monoid<W>) => <R, S, L, A>(f: (r: R) => A): ReaderWriterStateTaskEither<R, W, S, L, A> => {
+  return fromState(M, (r, s) => tuple(f(r), s))
+}
+
+export const get = <R, W, S, L>(M: Monoid<W>): ReaderWriterStateTaskEither<R, W, S, L, S> => {
+  return fromState(M, (_, s) => tuple(s, s))
+}
+
+export const gets = <W>(M: Monoid<W>) => <R, S, L, A>(f: (s: S) => A): ReaderWriterStateTaskEither<R, W, S, L, A> => {
+  return fromState(M, (_, s) => tuple(f(s), s))
+}
+
+export const put = <W>(M: Monoid<W>) => <R, S, L>(s: S): ReaderWriterStateTaskEither<R, W, S, L, void> => {
+  return fromState(M, () => tuple(undefined, s))
+}
+
+export const modify = <W>(M: Monoid<W>) => <R, S, L>(
+  f: Endomorphism<S>
+): ReaderWriterStateTaskEither<R, W, S, L, void> => {
+  return fromState(M, (_, s) => tuple(undefined, f(s)))
+}
+
+export const getMonad = <R, W, S, L>(
+  M: Monoid<W>
+): MonadIO3C<URI, [R, W, S], L> &
+  MonadTask3C<URI, [R, W, S], L> & {
+    ask: () => ReaderWriterStateTaskEither<R, W, S, L, R>
+    asks: <A>(f: (r: R) => A) => ReaderWriterStateTaskEither<R, W, S, L, A>
+    get: () => ReaderWriterStateTaskEither<R, W, S, L, S>
+    gets: <A>(f: (s: S) => A) => ReaderWriterStateTaskEither<R, W, S, L, A>
+    put: (s: S) => ReaderWriterStateTaskEither<R, W, S, L, void>
+    modify: (f: Endomorphism<S>) => ReaderWriterStateTaskEither<R, W, S, L, void>
+    fromTaskEither: <A>(fa: TaskEither<L, A>) => ReaderWriterStateTaskEither<R, W, S, L, A>
+    throwError: <A>(e: L) => ReaderWriterStateTaskEither<R, W, S, L, A>
+  } => {
+  const map = <A, B>(
+    fa: ReaderWriterStateTaskEither<R, W, S, L, A>,
+    f: (a: A) => B
+  ): ReaderWriterStateTaskEither<R, W, S, L, B> => fa.map(f)
+
+  const of = <A>(a: A): ReaderWriterStateTaskEither<R, W, S, L, A> => fromState(M, (_, s) => tuple(a, s))
+
+  const chain = <A, B>(
+    fa: ReaderWriterStateTaskEither<R, W, S, L, A>,
+    f: (a: A) => ReaderWriterStateTaskEither<R, W, S, L, B>
+  ): ReaderWriterStateTaskEither<R, W, S, L, B> =>
+    new ReaderWriterStateTaskEither((r, s) =>
+      fa.value(r, s).chain(([a, s1, w1]) =>
+        f(a)
+          .value(r, s1)
+          .map(([b, s2, w2]) => triple(b, s2, M.concat(w1, w2)))
+      )
+    )
+
+  const ap = <A, B>(
+    fab: ReaderWriterStateTaskEither<R, W, S, L, (a: A) => B>,
+    fa: ReaderWriterStateTaskEither<R, W, S, L, A>
+  ): ReaderWriterStateTaskEither<R, W, S, L, B> => chain(fab, f => map(fa, f))
+
+  const fromTaskEither = <A>(fa: TaskEither<L, A>): ReaderWriterStateTaskEither<R, W, S, L, A> =>
+    new ReaderWriterStateTaskEither((_, s) => fa.map(a => triple(a, s, M.empty)))
+
+  return {
+    URI,
+    _L: phantom,
+    _U: phantom,
+    map,
+    of,
+    ap,
+    chain,
+    fromIO: <A>(fa: IO<A>) => fromTaskEither(taskEither.fromIO<L, A>(fa)),
+    fromTask: <A>(fa: Task<A>) => fromTaskEither(taskEither.right<L, A>(fa)),
+    ask: () => ask(M),
+    asks: asks(M),
+    get: () => get(M),
+    gets: gets(M),
+    put: put(M),
+    modify: modify(M),
+    fromTaskEither,
+    throwError: fromLeft
+  }
+}
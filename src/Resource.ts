@@ -0,0 +1,163 @@
+/**
+ * @file A `Resource<L, A>` describes how to acquire a value of type `A` and how to release it afterwards. Resources
+ * compose with `map` / `chain` (and so with `Do`): `use` acquires them in order and releases them in reverse order,
+ * whatever the outcome of the inner computation.
+ *
+ * As with `bracket` (see `TaskOption`, `StateTaskEither`, `ReaderIO` and `TaskValidation`), a failing release is not
+ * swallowed: its `Left` (or its rejection) is the result of `use`, unless the inner computation rejected first (see
+ * `bracketPromise`).
+ */
+import { Monad2 } from 'fp-ts/lib/Monad'
+import { Task } from 'fp-ts/lib/Task'
+import { TaskEither, fromLeft as taskEitherFromLeft, taskEither } from 'fp-ts/lib/TaskEither'
+import { identity } from 'fp-ts/lib/function'
+import { bracketPromise } from './bracket'
+
+declare module 'fp-ts/lib/HKT' {
+  interface URI2HKT2<L, A> {
+    Resource: Resource<L, A>
+  }
+}
+
+/**
+ * @since 0.0.3
+ */
+export const URI = 'Resource'
+
+/**
+ * @since 0.0.3
+ */
+export type URI = typeof URI
+
+/**
+ * @since 0.0.3
+ */
+export class Resource<L, A> {
+  readonly _A!: A
+  readonly _L!: L
+  readonly _URI!: URI
+  constructor(readonly use: <B>(f: (a: A) => TaskEither<L, B>) => TaskEither<L, B>) {}
+  map<B>(f: (a: A) => B): Resource<L, B> {
+    return new Resource(<C>(g: (b: B) => TaskEither<L, C>) => this.use(a => g(f(a))))
+  }
+  ap<B>(fab: Resource<L, (a: A) => B>): Resource<L, B> {
+    return fab.chain(f => this.map(f))
+  }
+  ap_<B, C>(this: Resource<L, (b: B) => C>, fb: Resource<L, B>): Resource<L, C> {
+    return fb.ap(this)
+  }
+  chain<B>(f: (a: A) => Resource<L, B>): Resource<L, B> {
+    return new Resource(<C>(g: (b: B) => TaskEither<L, C>) => this.use(a => f(a).use(g)))
+  }
+}
+
+const bracket = <L, A, B>(
+  acquire: TaskEither<L, A>,
+  use: (a: A) => TaskEither<L, B>,
+  release: (a: A) => TaskEither<L, void>
+): TaskEither<L, B> =>
+  acquire.chain(
+    a =>
+      new TaskEither(
+        new Task(() =>
+          bracketPromise(
+            () => use(a).run(),
+            eb =>
+              release(a)
+                .run()
+                .then(ev => ev.chain(() => eb)),
+            () => release(a).run()
+          )
+        )
+      )
+  )
+
+/**
+ * Creates a resource from an acquisition and the matching release
+ *
+ * @example
+ * import { make } from 'fp-ts-contrib/lib/Resource'
+ * import { right } from 'fp-ts/lib/Either'
+ * import { IO } from 'fp-ts/lib/IO'
+ * import { fromIO, taskEither } from 'fp-ts/lib/TaskEither'
+ *
+ * const log: Array<string> = []
+ * const trace = (message: string) => new IO(() => log.push(message))
+ *
+ * const open = (name: string) =>
+ *   make(fromIO<string, string>(trace(`open ${name}`).map(() => name)), () =>
+ *     fromIO<string, void>(trace(`close ${name}`).map(() => undefined))
+ *   )
+ *
+ * open('a')
+ *   .chain(a => open('b').map(b => [a, b]))
+ *   .use(names => taskEither.of(names.join(', ')))
+ *   .run()
+ *   .then(result => {
+ *     assert.deepStrictEqual(result, right('a, b'))
+ *     assert.deepStrictEqual(log, ['open a', 'open b', 'close b', 'close a'])
+ *   })
+ *
+ * @since 0.0.3
+ */
+export const make = <L, A>(acquire: TaskEither<L, A>, release: (a: A) => TaskEither<L, void>): Resource<L, A> => {
+  return new Resource(<B>(f: (a: A) => TaskEither<L, B>) => bracket(acquire, f, release))
+}
+
+/**
+ * Lifts a `TaskEither` into a resource with nothing to release
+ *
+ * @since 0.0.3
+ */
+export const fromTaskEither = <L, A>(fa: TaskEither<L, A>): Resource<L, A> => {
+  return new Resource(<B>(f: (a: A) => TaskEither<L, B>) => fa.chain(f))
+}
+
+const of = <L, A>(a: A): Resource<L, A> => fromTaskEither(taskEither.of(a))
+
+/**
+ * @since 0.0.3
+ */
+export const fromLeft = <L, A>(l: L): Resource<L, A> => fromTaskEither(taskEitherFromLeft(l))
+
+/**
+ * @since 0.0.3
+ */
+export const resource: Monad2<URI> = {
+  URI,
+  map: (fa, f) => fa.map(f),
+  of,
+  ap: (fab, fa) => fa.ap(fab),
+  chain: (fa, f) => fa.chain(f)
+}
+
+//
+// pipeables
+//
+
+/**
+ * @since 0.0.3
+ */
+export const map = <A, B>(f: (a: A) => B) => <L>(fa: Resource<L, A>): Resource<L, B> => fa.map(f)
+
+/**
+ * @since 0.0.3
+ */
+export const ap = <L, A>(fa: Resource<L, A>) => <B>(fab: Resource<L, (a: A) => B>): Resource<L, B> => fa.ap(fab)
+
+/**
+ * @since 0.0.3
+ */
+export const chain = <L, A, B>(f: (a: A) => Resource<L, B>) => (ma: Resource<L, A>): Resource<L, B> => ma.chain(f)
+
+/**
+ * @since 0.0.3
+ */
+export const flatten = <L, A>(mma: Resource<L, Resource<L, A>>): Resource<L, A> => mma.chain(identity)
+
+/**
+ * Acquires the resource, runs `f` and releases the resource
+ *
+ * @since 0.0.3
+ */
+export const use = <L, A, B>(f: (a: A) => TaskEither<L, B>) => (ma: Resource<L, A>): TaskEither<L, B> => ma.use(f)
@@ -1,12 +1,12 @@
-import * as array from 'fp-ts/lib/Array'
-import { log } from 'fp-ts/lib/Console'
+import { ChainRec2 } from 'fp-ts/lib/ChainRec'
+import { Either } from 'fp-ts/lib/Either'
 import { IO, io } from 'fp-ts/lib/IO'
 import { Monad2 } from 'fp-ts/lib/Monad'
-import { ordNumber } from 'fp-ts/lib/Ord'
-import { randomInt } from 'fp-ts/lib/Random'
+import { Option, none, some } from 'fp-ts/lib/Option'
 import { State } from 'fp-ts/lib/State'
 import * as stateT from 'fp-ts/lib/StateT'
-import { Endomorphism, tuple } from 'fp-ts/lib/function'
+import { Endomorphism, identity, tuple } from 'fp-ts/lib/function'
+import { Lens, Optional } from './Lens'
 
 declare module 'fp-ts/lib/HKT' {
   interface URI2HKT2<L, A> {
@@ -35,33 +35,53 @@ export class StateIO<S, A> {
     return this.run(s)[1]
   }
   map<B>(f: (a: A) => B): StateIO<S, B> {
-    return new StateIO(stateTIO.map(this.value, f))
+    return this.chain(a => of(f(a)))
   }
   ap<B>(fab: StateIO<S, (a: A) => B>): StateIO<S, B> {
-    return new StateIO(stateTIO.ap(fab.value, this.value))
+    return fab.chain(f => this.map(f))
   }
   ap_<B, C>(this: StateIO<S, (b: B) => C>, fb: StateIO<S, B>): StateIO<S, C> {
     return fb.ap(this)
   }
   chain<B>(f: (a: A) => StateIO<S, B>): StateIO<S, B> {
-    return new StateIO(stateTIO.chain(this.value, a => f(a).value))
+    return new Bind(this, f)
   }
 }
 
-const map = <S, A, B>(fa: StateIO<S, A>, f: (a: A) => B): StateIO<S, B> => {
-  return fa.map(f)
+/**
+ * A `chain` node, evaluated by `runLoop` with an explicit stack of continuations so that long chains and recursive
+ * programs run in constant stack space
+ */
+class Bind<S, A, B> extends StateIO<S, B> {
+  constructor(readonly fa: StateIO<S, A>, readonly f: (a: A) => StateIO<S, B>) {
+    super(s => new IO(() => runLoop(fa, s, [f])))
+  }
 }
 
-const of = <S, A>(a: A): StateIO<S, A> => {
-  return new StateIO(stateTIO.of(a))
+const runLoop = <S>(fa: StateIO<S, any>, s: S, stack: Array<(a: any) => StateIO<S, any>>): [any, S] => {
+  let current = fa
+  while (true) {
+    if (current instanceof Bind) {
+      stack.push(current.f)
+      current = current.fa
+    } else {
+      const [a, s1] = current.value(s).run()
+      const f = stack.pop()
+      if (f === undefined) {
+        return [a, s1]
+      }
+      current = f(a)
+      s = s1
+    }
+  }
 }
 
-const ap = <S, A, B>(fab: StateIO<S, (a: A) => B>, fa: StateIO<S, A>): StateIO<S, B> => {
-  return fa.ap(fab)
+const of = <S, A>(a: A): StateIO<S, A> => {
+  return new StateIO(stateTIO.of(a))
 }
 
-const chain = <S, A, B>(fa: StateIO<S, A>, f: (a: A) => StateIO<S, B>): StateIO<S, B> => {
-  return fa.chain(f)
+export const tailRecM = <S, A, B>(a: A, f: (a: A) => StateIO<S, Either<A, B>>): StateIO<S, B> => {
+  return f(a).chain(e => e.fold(a => tailRecM(a, f), b => of<S, B>(b)))
 }
 
 export const get = <S>(): StateIO<S, S> => {
@@ -93,93 +113,43 @@ export const fromState = <S, A>(fa: State<S, A>): StateIO<S, A> => {
   return new StateIO(stateTfromState(fa))
 }
 
-export const stateIO: Monad2<URI> = {
+export const zoom = <S, P>(lens: Lens<S, P>) => <A>(fa: StateIO<P, A>): StateIO<S, A> => {
+  return new StateIO(s => fa.value(lens.get(s)).map(([a, p]) => tuple(a, lens.set(p)(s))))
+}
+
+export const zoomOptional = <S, P>(optional: Optional<S, P>) => <A>(fa: StateIO<P, A>): StateIO<S, Option<A>> => {
+  return new StateIO(s =>
+    optional
+      .getOption(s)
+      .foldL(() => io.of(tuple(none, s)), p => fa.value(p).map(([a, p1]) => tuple(some(a), optional.set(p1)(s))))
+  )
+}
+
+export const stateIO: Monad2<URI> & ChainRec2<URI> = {
   URI,
-  map,
+  map: (fa, f) => fa.map(f),
   of,
-  ap,
-  chain
+  ap: (fab, fa) => fa.ap(fab),
+  chain: (fa, f) => fa.chain(f),
+  chainRec: tailRecM
 }
 
 //
-// Usage (adapted from https://wiki.haskell.org/Simple_StateT_use)
+// pipeables
 //
 
-// Example 1
-
-/** pop the next unique off the stack */
-const pop: StateIO<Array<number>, number> = get<Array<number>>().chain(ns =>
-  array.foldL(ns, () => of(0), (h, t) => put(t).chain(() => of(h)))
-)
-
-const program1: StateIO<Array<number>, void> = pop
-  .chain(x => fromIO(log(x)))
-  .chain(() => pop)
-  .chain(y => fromIO(log(y)))
-  .chain(() => of(undefined))
-
-program1.run([1, 2, 3])
-// => 1
-// => 2
-
-// Example 2: a guessing game
-
-function readLine(s: string): IO<string> {
-  return new IO(() => require('readline-sync').question(s))
-}
-
-function guessSession(answer: number): StateIO<number, void> {
-  return fromIO<number, string>(readLine('')).chain(gs => {
-    const g = parseInt(gs, 10)
-    return modify<number>(s => s + 1).chain(() => {
-      switch (ordNumber.compare(g, answer)) {
-        case -1:
-          return fromIO<number, void>(log('Too low')).chain(() => guessSession(answer))
-        case 1:
-          return fromIO<number, void>(log('Too high')).chain(() => guessSession(answer))
-        case 0:
-          return fromIO<number, void>(log('Got it!'))
-      }
-    })
-  })
+export const map = <A, B>(f: (a: A) => B) => <S>(fa: StateIO<S, A>): StateIO<S, B> => {
+  return fa.map(f)
 }
 
-const program2 = randomInt(1, 100).chain(answer =>
-  log(`I'm thinking of a number between 1 and 100, can you guess it? `).chain(() => {
-    const guesses = guessSession(answer).exec(0)
-    return log(`Success in ${guesses} tries.`)
-  })
-)
-
-program2.run()
-
-// example 3: a global state
-
-type Vars = {
-  var1: number
-  var2: number
+export const ap = <S, A>(fa: StateIO<S, A>) => <B>(fab: StateIO<S, (a: A) => B>): StateIO<S, B> => {
+  return fa.ap(fab)
 }
 
-type MyState<A> = StateIO<Vars, A>
-
-type Selector<A> = [MyState<A>, (a: A) => MyState<void>]
-
-const s1: Selector<number> = [gets(s => s.var1), var1 => modify(vars => ({ ...vars, var1 }))]
-
-const s2: Selector<number> = [gets(s => s.var2), var2 => modify(vars => ({ ...vars, var2 }))]
-
-function sel<A>(selector: Selector<A>): MyState<A> {
-  return selector[0]
+export const chain = <S, A, B>(f: (a: A) => StateIO<S, B>) => (ma: StateIO<S, A>): StateIO<S, B> => {
+  return ma.chain(f)
 }
 
-function mods<A>([gf, uf]: Selector<A>, mfun: Endomorphism<A>): MyState<void> {
-  return gf.chain(st => uf(mfun(st)))
+export const flatten = <S, A>(mma: StateIO<S, StateIO<S, A>>): StateIO<S, A> => {
+  return mma.chain(identity)
 }
-
-const program3 = sel(s1)
-  .chain(a => mods(s2, n => n * a))
-  .chain(() => sel(s2))
-  .chain(b => fromIO(log(b)))
-
-program3.run({ var1: 2, var2: 1.3 })
-// => 2.6
@@ -1,9 +1,22 @@
-import { Either } from 'fp-ts/lib/Either'
+import { Alt3 } from 'fp-ts/lib/Alt'
+import { Bifunctor3 } from 'fp-ts/lib/Bifunctor'
+import { ChainRec3 } from 'fp-ts/lib/ChainRec'
+import { Either, left as eitherLeft, right as eitherRight } from 'fp-ts/lib/Either'
+import { IO } from 'fp-ts/lib/IO'
 import { Monad3 } from 'fp-ts/lib/Monad'
+import { MonadIO3 } from 'fp-ts/lib/MonadIO'
+import { MonadTask3 } from 'fp-ts/lib/MonadTask'
+import { Option } from 'fp-ts/lib/Option'
 import { State } from 'fp-ts/lib/State'
 import * as stateT from 'fp-ts/lib/StateT'
-import { TaskEither, taskEither } from 'fp-ts/lib/TaskEither'
-import { Endomorphism } from 'fp-ts/lib/function'
+import { Task } from 'fp-ts/lib/Task'
+import * as taskEither from 'fp-ts/lib/TaskEither'
+import { Endomorphism, Predicate, Refinement, identity, tuple } from 'fp-ts/lib/function'
+import { bracketPromise } from './bracket'
+import { CacheOptions, getCache } from './cache'
+import { AbortSignal, Cancelled, cancellable } from './cancel'
+import { Lens, Optional } from './Lens'
+import TaskEither = taskEither.TaskEither
 
 declare module 'fp-ts/lib/HKT' {
   interface URI2HKT3<U, L, A> {
@@ -11,7 +24,7 @@ declare module 'fp-ts/lib/HKT' {
   }
 }
 
-const T = stateT.getStateT2v(taskEither)
+const T = stateT.getStateT2v(taskEither.taskEither)
 
 export const URI = 'StateTaskEither'
 
@@ -22,79 +35,317 @@ export class StateTaskEither<S, L, A> {
   readonly _L!: L
   readonly _U!: S
   readonly _URI!: URI
-  constructor(readonly value: (s: S) => TaskEither<L, [A, S]>) {}
-  run(s: S): Promise<Either<L, [A, S]>> {
-    return this.value(s).run()
+  constructor(readonly value: (s: S, signal?: AbortSignal) => TaskEither<L, [A, S]>) {}
+  run(s: S): Promise<Either<L, [A, S]>>
+  run(s: S, signal: AbortSignal): Promise<Either<L | Cancelled, [A, S]>>
+  run(s: S, signal?: AbortSignal): Promise<Either<L | Cancelled, [A, S]>> {
+    if (signal === undefined) {
+      return this.value(s).run()
+    }
+    return cancellable(() => this.value(s, signal).run(), signal).then(e =>
+      e.fold(c => eitherLeft<L | Cancelled, [A, S]>(c), identity)
+    )
   }
-  eval(s: S): Promise<Either<L, A>> {
-    return this.run(s).then(e => e.map(([a]) => a))
+  eval(s: S): Promise<Either<L, A>>
+  eval(s: S, signal: AbortSignal): Promise<Either<L | Cancelled, A>>
+  eval(s: S, signal?: AbortSignal): Promise<Either<L | Cancelled, A>> {
+    return (signal === undefined ? this.run(s) : this.run(s, signal)).then(e => e.map(([a]) => a))
   }
-  exec(s: S): Promise<Either<L, S>> {
-    return this.run(s).then(e => e.map(([_, s]) => s))
+  exec(s: S): Promise<Either<L, S>>
+  exec(s: S, signal: AbortSignal): Promise<Either<L | Cancelled, S>>
+  exec(s: S, signal?: AbortSignal): Promise<Either<L | Cancelled, S>> {
+    return (signal === undefined ? this.run(s) : this.run(s, signal)).then(e => e.map(([_, s]) => s))
   }
   map<B>(f: (a: A) => B): StateTaskEither<S, L, B> {
-    return new StateTaskEither(T.map(this.value, f))
+    return this.chain(a => of(f(a)))
   }
   ap<B>(fab: StateTaskEither<S, L, (a: A) => B>): StateTaskEither<S, L, B> {
-    return new StateTaskEither(T.ap(fab.value, this.value))
+    return fab.chain(f => this.map(f))
   }
   ap_<B, C>(this: StateTaskEither<S, L, (b: B) => C>, fb: StateTaskEither<S, L, B>): StateTaskEither<S, L, C> {
     return fb.ap(this)
   }
   chain<B>(f: (a: A) => StateTaskEither<S, L, B>): StateTaskEither<S, L, B> {
-    return new StateTaskEither(T.chain(this.value, a => f(a).value))
+    return new Bind(this, f)
   }
   orElse<M>(f: (l: L) => StateTaskEither<S, M, A>): StateTaskEither<S, M, A> {
-    return new StateTaskEither(s => this.value(s).orElse(l => f(l).value(s)))
+    return new StateTaskEither((s, signal) => this.value(s, signal).orElse(l => f(l).value(s, signal)))
+  }
+  alt(fy: StateTaskEither<S, L, A>): StateTaskEither<S, L, A> {
+    return this.orElse(() => fy)
+  }
+  mapLeft<M>(f: (l: L) => M): StateTaskEither<S, M, A> {
+    return new StateTaskEither((s, signal) => this.value(s, signal).mapLeft(f))
+  }
+  bimap<M, B>(f: (l: L) => M, g: (a: A) => B): StateTaskEither<S, M, B> {
+    return new StateTaskEither((s, signal) => this.value(s, signal).bimap(f, ([a, s1]) => tuple(g(a), s1)))
+  }
+  fold<R>(onLeft: (l: L) => R, onRight: (a: A, s: S) => R): (s: S) => Task<R> {
+    return s => this.value(s).fold(onLeft, ([a, s1]) => onRight(a, s1))
+  }
+}
+
+/**
+ * A `chain` node: `runLoop` unwinds nested binds iteratively and resumes the continuations from `then`, so neither
+ * building nor running a long chain grows the stack
+ */
+class Bind<S, L, A, B> extends StateTaskEither<S, L, B> {
+  constructor(readonly fa: StateTaskEither<S, L, A>, readonly f: (a: A) => StateTaskEither<S, L, B>) {
+    super((s, signal) => new TaskEither(new Task(() => runLoop(this, s, signal))))
   }
 }
 
-const map = <S, L, A, B>(fa: StateTaskEither<S, L, A>, f: (a: A) => B): StateTaskEither<S, L, B> => fa.map(f)
+type Continuation<S, L> = (a: unknown) => StateTaskEither<S, L, unknown>
 
-const of = <S, L, A>(a: A): StateTaskEither<S, L, A> => new StateTaskEither(T.of(a))
+/**
+ * The signal is passed to every nested run (e.g. the branch of an `orElse`) and is checked before each step: once it is
+ * aborted, the run rejects with a `Cancelled`, which `run` turns into a `Left(Cancelled)` (a rejection, unlike a
+ * `Left`, skips the `orElse` handlers and still runs the `bracket` releases)
+ */
+const runLoop = <S, L, A, B>(bind: Bind<S, L, A, B>, s: S, signal?: AbortSignal): Promise<Either<L, [B, S]>> => {
+  const stack: Array<Continuation<S, L>> = []
+  const loop = (current: StateTaskEither<S, L, unknown>, s: S): Promise<Either<L, [unknown, S]>> => {
+    if (signal !== undefined && signal.aborted) {
+      return Promise.reject(new Cancelled())
+    }
+    while (current instanceof Bind) {
+      stack.push(current.f)
+      current = current.fa
+    }
+    return current
+      .value(s, signal)
+      .run()
+      .then(e => {
+        const f = stack.pop()
+        return e.isLeft() || f === undefined ? e : loop(f(e.value[0]), e.value[1])
+      })
+  }
+  return loop(bind, s) as Promise<Either<L, [B, S]>>
+}
 
-const ap = <S, L, A, B>(
-  fab: StateTaskEither<S, L, (a: A) => B>,
-  fa: StateTaskEither<S, L, A>
-): StateTaskEither<S, L, B> => fa.ap(fab)
+const of = <S, L, A>(a: A): StateTaskEither<S, L, A> => new StateTaskEither(T.of(a))
 
-const chain = <S, L, A, B>(
-  fa: StateTaskEither<S, L, A>,
-  f: (a: A) => StateTaskEither<S, L, B>
-): StateTaskEither<S, L, B> => fa.chain(f)
+export const tailRecM = <S, L, A, B>(
+  a: A,
+  f: (a: A) => StateTaskEither<S, L, Either<A, B>>
+): StateTaskEither<S, L, B> => {
+  return f(a).chain(e => e.fold(a => tailRecM(a, f), b => of<S, L, B>(b)))
+}
 
-const getT = stateT.get2v(taskEither)
+const getT = stateT.get2v(taskEither.taskEither)
 export const get = <L, S>(): StateTaskEither<S, L, S> => new StateTaskEither<S, L, S>(getT)
 
-const putT = stateT.put(taskEither)
+const putT = stateT.put(taskEither.taskEither)
 export const put = <L, S>(s: S): StateTaskEither<S, L, void> => {
   return new StateTaskEither<S, L, void>(putT(s))
 }
 
-const modifyT = stateT.modify(taskEither)
+const modifyT = stateT.modify(taskEither.taskEither)
 export const modify = <L, S>(f: Endomorphism<S>): StateTaskEither<S, L, void> => {
   return new StateTaskEither<S, L, void>(modifyT(f))
 }
 
-const getsT = stateT.gets(taskEither)
+const getsT = stateT.gets(taskEither.taskEither)
 export const gets = <S, L, A>(f: (s: S) => A): StateTaskEither<S, L, A> => {
   return new StateTaskEither<S, L, A>(getsT(f))
 }
 
-const liftT = stateT.liftF(taskEither)
+const liftT = stateT.liftF(taskEither.taskEither)
 export const fromTaskEither = <S, L, A>(fa: TaskEither<L, A>): StateTaskEither<S, L, A> => {
   return new StateTaskEither(liftT(fa))
 }
 
-const fromStateT = stateT.fromState(taskEither)
+const fromStateT = stateT.fromState(taskEither.taskEither)
 export const fromState = <S, A, L>(fa: State<S, A>): StateTaskEither<S, L, A> => {
   return new StateTaskEither(fromStateT(fa))
 }
 
-export const stateTaskEither: Monad3<URI> = {
+export const fromLeft = <S, L, A>(l: L): StateTaskEither<S, L, A> => fromTaskEither(taskEither.fromLeft(l))
+
+export const left = <S, L, A>(fl: Task<L>): StateTaskEither<S, L, A> => fromTaskEither(taskEither.left(fl))
+
+export const fromEither = <S, L, A>(fa: Either<L, A>): StateTaskEither<S, L, A> =>
+  fromTaskEither(taskEither.fromEither(fa))
+
+export const fromOption = <S, L, A>(fa: Option<A>, l: L): StateTaskEither<S, L, A> =>
+  fa.foldL(() => fromLeft(l), a => of(a))
+
+export const fromIO = <S, L, A>(fa: IO<A>): StateTaskEither<S, L, A> => fromTaskEither(taskEither.fromIO(fa))
+
+export const fromTask = <S, L, A>(fa: Task<A>): StateTaskEither<S, L, A> => fromTaskEither(taskEither.right(fa))
+
+export function fromPredicate<S, L, A, B extends A>(
+  predicate: Refinement<A, B>,
+  onFalse: (a: A) => L
+): (a: A) => StateTaskEither<S, L, B>
+export function fromPredicate<S, L, A>(
+  predicate: Predicate<A>,
+  onFalse: (a: A) => L
+): (a: A) => StateTaskEither<S, L, A>
+export function fromPredicate<S, L, A>(
+  predicate: Predicate<A>,
+  onFalse: (a: A) => L
+): (a: A) => StateTaskEither<S, L, A> {
+  return a => (predicate(a) ? of(a) : fromLeft(onFalse(a)))
+}
+
+export function tryCatch<S, L, A>(
+  f: (s: S) => Promise<A>,
+  onrejected: (reason: unknown, s: S) => L
+): StateTaskEither<S, L, A>
+export function tryCatch<S, L, A>(
+  f: (s: S, signal: AbortSignal) => Promise<A>,
+  onrejected: (reason: unknown, s: S) => L,
+  signal: AbortSignal
+): StateTaskEither<S, L | Cancelled, A>
+export function tryCatch<S, L, A>(
+  f: (s: S, signal: AbortSignal) => Promise<A>,
+  onrejected: (reason: unknown, s: S) => L,
+  signal?: AbortSignal
+): StateTaskEither<S, L | Cancelled, A> {
+  if (signal === undefined) {
+    const g = f as (s: S) => Promise<A>
+    return new StateTaskEither(s =>
+      taskEither.tryCatch(() => g(s), reason => onrejected(reason, s)).map(a => tuple(a, s))
+    )
+  }
+  return new StateTaskEither(
+    s =>
+      new TaskEither(
+        new Task(() =>
+          cancellable(() => f(s, signal), signal).then(
+            e =>
+              e.fold(c => eitherLeft<L | Cancelled, [A, S]>(c), a => eitherRight<L | Cancelled, [A, S]>(tuple(a, s))),
+            reason => eitherLeft<L | Cancelled, [A, S]>(onrejected(reason, s))
+          )
+        )
+      )
+  )
+}
+
+/**
+ * `release` runs with the state left by `use`, or with the state left by `acquire` if `use` fails or is cancelled (the
+ * signal of the run is not passed to `release`)
+ */
+export const bracket = <S, L, A, B>(
+  acquire: StateTaskEither<S, L, A>,
+  use: (a: A) => StateTaskEither<S, L, B>,
+  release: (a: A) => StateTaskEither<S, L, void>
+): StateTaskEither<S, L, B> =>
+  acquire.chain(
+    a =>
+      new StateTaskEither(
+        (s, signal) =>
+          new TaskEither(
+            new Task(() =>
+              bracketPromise(
+                () =>
+                  use(a)
+                    .value(s, signal)
+                    .run(),
+                eb =>
+                  release(a)
+                    .run(eb.fold(() => s, ([_, s1]) => s1))
+                    .then(ev => ev.chain(([_, s2]) => eb.map(([b]) => tuple(b, s2)))),
+                () => release(a).run(s)
+              )
+            )
+          )
+      )
+  )
+
+export const cachedBy = <S, K>(keyFn: (s: S) => K, options: CacheOptions = {}) => <L, A>(
+  ma: StateTaskEither<S, L, A>
+): StateTaskEither<S, L, A> => {
+  const cache = getCache<K, Either<L, [A, S]>>(options, e => e.isLeft())
+  return new StateTaskEither(
+    (s, signal) => new TaskEither(new Task(() => cache.get(keyFn(s), () => ma.value(s, signal).run())))
+  )
+}
+
+/**
+ * Results are cached by input state (compared with `SameValueZero`), see `cachedBy` to use another key
+ */
+export const cached = (options: CacheOptions = {}) => <S, L, A>(
+  ma: StateTaskEither<S, L, A>
+): StateTaskEither<S, L, A> => cachedBy<S, S>(identity, options)(ma)
+
+export const memoize = <S, L, A>(ma: StateTaskEither<S, L, A>): StateTaskEither<S, L, A> => cached()(ma)
+
+export const zoom = <S, P>(lens: Lens<S, P>) => <L, A>(fa: StateTaskEither<P, L, A>): StateTaskEither<S, L, A> => {
+  return new StateTaskEither((s, signal) => fa.value(lens.get(s), signal).map(([a, p]) => tuple(a, lens.set(p)(s))))
+}
+
+export const zoomOptional = <S, P, L>(optional: Optional<S, P>, onNone: (s: S) => L) => <A>(
+  fa: StateTaskEither<P, L, A>
+): StateTaskEither<S, L, A> => {
+  return new StateTaskEither((s, signal) =>
+    optional
+      .getOption(s)
+      .foldL(
+        () => taskEither.fromLeft(onNone(s)),
+        p => fa.value(p, signal).map(([a, p1]) => tuple(a, optional.set(p1)(s)))
+      )
+  )
+}
+
+export const stateTaskEither: Monad3<URI> &
+  Bifunctor3<URI> &
+  Alt3<URI> &
+  ChainRec3<URI> &
+  MonadIO3<URI> &
+  MonadTask3<URI> & {
+    throwError: <S, L, A>(e: L) => StateTaskEither<S, L, A>
+    fromEither: <S, L, A>(e: Either<L, A>) => StateTaskEither<S, L, A>
+    fromOption: <S, L, A>(o: Option<A>, e: L) => StateTaskEither<S, L, A>
+  } = {
   URI,
-  map,
+  map: (fa, f) => fa.map(f),
   of,
-  ap,
-  chain
+  ap: (fab, fa) => fa.ap(fab),
+  chain: (fa, f) => fa.chain(f),
+  alt: (fx, fy) => fx.alt(fy),
+  bimap: (fla, f, g) => fla.bimap(f, g),
+  chainRec: tailRecM,
+  fromIO,
+  fromTask,
+  throwError: fromLeft,
+  fromEither,
+  fromOption
 }
+
+//
+// pipeables
+//
+
+export const map = <A, B>(f: (a: A) => B) => <S, L>(fa: StateTaskEither<S, L, A>): StateTaskEither<S, L, B> => fa.map(f)
+
+export const ap = <S, L, A>(fa: StateTaskEither<S, L, A>) => <B>(
+  fab: StateTaskEither<S, L, (a: A) => B>
+): StateTaskEither<S, L, B> => fa.ap(fab)
+
+export const chain = <S, L, A, B>(f: (a: A) => StateTaskEither<S, L, B>) => (
+  ma: StateTaskEither<S, L, A>
+): StateTaskEither<S, L, B> => ma.chain(f)
+
+export const flatten = <S, L, A>(mma: StateTaskEither<S, L, StateTaskEither<S, L, A>>): StateTaskEither<S, L, A> =>
+  mma.chain(identity)
+
+export const mapLeft = <L, M>(f: (l: L) => M) => <S, A>(fa: StateTaskEither<S, L, A>): StateTaskEither<S, M, A> =>
+  fa.mapLeft(f)
+
+export const bimap = <L, M, A, B>(f: (l: L) => M, g: (a: A) => B) => <S>(
+  fa: StateTaskEither<S, L, A>
+): StateTaskEither<S, M, B> => fa.bimap(f, g)
+
+export const alt = <S, L, A>(fy: StateTaskEither<S, L, A>) => (
+  fx: StateTaskEither<S, L, A>
+): StateTaskEither<S, L, A> => fx.alt(fy)
+
+export const orElse = <S, L, M, A>(f: (l: L) => StateTaskEither<S, M, A>) => (
+  fa: StateTaskEither<S, L, A>
+): StateTaskEither<S, M, A> => fa.orElse(f)
+
+export const fold = <S, L, A, R>(onLeft: (l: L) => R, onRight: (a: A, s: S) => R) => (
+  ma: StateTaskEither<S, L, A>
+): ((s: S) => Task<R>) => ma.fold(onLeft, onRight)
@@ -1,8 +1,27 @@
+import { Alternative1 } from 'fp-ts/lib/Alternative'
+import { Applicative1 } from 'fp-ts/lib/Applicative'
+import { Separated } from 'fp-ts/lib/Compactable'
+import { Either, fromOptionL } from 'fp-ts/lib/Either'
+import { Filterable1, getFilterableComposition } from 'fp-ts/lib/Filterable'
+import { IO } from 'fp-ts/lib/IO'
 import { Monad1 } from 'fp-ts/lib/Monad'
-import { Option, fromEither, none as optionNone, some as optionSome } from 'fp-ts/lib/Option'
+import { MonadIO1 } from 'fp-ts/lib/MonadIO'
+import { MonadTask1 } from 'fp-ts/lib/MonadTask'
+import {
+  Option,
+  fromEither,
+  fromNullable as optionFromNullable,
+  none as optionNone,
+  option,
+  some as optionSome
+} from 'fp-ts/lib/Option'
 import * as optionT from 'fp-ts/lib/OptionT'
-import { Task, task, tryCatch as tryCatchTask } from 'fp-ts/lib/Task'
-import { Lazy, identity } from 'fp-ts/lib/function'
+import { Task, fromIO as taskFromIO, task, tryCatch as tryCatchTask } from 'fp-ts/lib/Task'
+import { TaskEither } from 'fp-ts/lib/TaskEither'
+import { Lazy, Predicate, Refinement, identity } from 'fp-ts/lib/function'
+import { bracketPromise } from './bracket'
+import { CacheOptions, getCache } from './cache'
+import { AbortSignal, cancellable } from './cancel'
 
 declare module 'fp-ts/lib/HKT' {
   interface URI2HKT<A> {
@@ -17,6 +36,8 @@ export type URI = typeof URI
 const T = optionT.getOptionT2v(task)
 const foldT = optionT.fold(task)
 
+const F = getFilterableComposition(task, option)
+
 export class TaskOption<A> {
   readonly _A!: A
   readonly _URI!: URI
@@ -42,31 +63,183 @@ export class TaskOption<A> {
   getOrElse(a: A): Task<A> {
     return this.fold(a, identity)
   }
+  getOrElseL(f: Lazy<A>): Task<A> {
+    return this.value.map(o => o.getOrElseL(f))
+  }
+  orElse(f: Lazy<TaskOption<A>>): TaskOption<A> {
+    return new TaskOption(this.value.chain(o => (o.isSome() ? task.of(o) : f().value)))
+  }
+  alt(fy: TaskOption<A>): TaskOption<A> {
+    return this.orElse(() => fy)
+  }
+  filter<B extends A>(p: Refinement<A, B>): TaskOption<B>
+  filter(p: Predicate<A>): TaskOption<A>
+  filter(p: Predicate<A>): TaskOption<A> {
+    return new TaskOption(F.filter(this.value, p))
+  }
+  filterMap<B>(f: (a: A) => Option<B>): TaskOption<B> {
+    return new TaskOption(F.filterMap(this.value, f))
+  }
+  toTaskEither<L>(onNone: Lazy<L>): TaskEither<L, A> {
+    return new TaskEither(this.value.map(fromOptionL(onNone)))
+  }
 }
 
-const map = <A, B>(fa: TaskOption<A>, f: (a: A) => B): TaskOption<B> => fa.map(f)
-
 const of = <A>(a: A): TaskOption<A> => new TaskOption(T.of(a))
 
-const ap = <A, B>(fab: TaskOption<(a: A) => B>, fa: TaskOption<A>): TaskOption<B> => fa.ap(fab)
-
-const chain = <A, B>(fa: TaskOption<A>, f: (a: A) => TaskOption<B>): TaskOption<B> => fa.chain(f)
-
 export const some = of
 
 export const none = new TaskOption(task.of(optionNone))
 
 export const fromOption = <A>(ma: Option<A>): TaskOption<A> => new TaskOption(task.of(ma))
 
+export const zero = <A>(): TaskOption<A> => none
+
+export const fromNullable = <A>(a: A | null | undefined): TaskOption<A> => fromOption(optionFromNullable(a))
+
+export function fromPredicate<A, B extends A>(predicate: Refinement<A, B>): (a: A) => TaskOption<B>
+export function fromPredicate<A>(predicate: Predicate<A>): (a: A) => TaskOption<A>
+export function fromPredicate<A>(predicate: Predicate<A>): (a: A) => TaskOption<A> {
+  return a => (predicate(a) ? some(a) : none)
+}
+
 export const fromTask = <A>(ma: Task<A>): TaskOption<A> => new TaskOption(ma.map(optionSome))
 
-export const tryCatch = <A>(f: Lazy<Promise<A>>): TaskOption<A> =>
-  new TaskOption(tryCatchTask(f, () => undefined).map(fromEither))
+export const fromIO = <A>(ma: IO<A>): TaskOption<A> => fromTask(taskFromIO(ma))
+
+export const fromTaskEither = <L, A>(ma: TaskEither<L, A>): TaskOption<A> => new TaskOption(ma.value.map(fromEither))
+
+export const toTaskEither = <L>(onNone: Lazy<L>) => <A>(ma: TaskOption<A>): TaskEither<L, A> => ma.toTaskEither(onNone)
+
+/**
+ * With a signal, a cancellation is a failure (a `None`) like a rejection of `f`, so it goes to the fallback of `alt` and
+ * `getOrElse`, and is retried by `retryingTaskOption` (without running `f` again, as the signal stays aborted)
+ */
+export function tryCatch<A>(f: Lazy<Promise<A>>): TaskOption<A>
+export function tryCatch<A>(f: (signal: AbortSignal) => Promise<A>, signal: AbortSignal): TaskOption<A>
+export function tryCatch<A>(f: (signal: AbortSignal) => Promise<A>, signal?: AbortSignal): TaskOption<A> {
+  if (signal === undefined) {
+    return new TaskOption(tryCatchTask(f as Lazy<Promise<A>>, () => undefined).map(fromEither))
+  }
+  return new TaskOption(
+    new Task(() =>
+      cancellable(() => f(signal), signal).then(e => e.fold(() => optionNone, optionSome), () => optionNone)
+    )
+  )
+}
+
+export const bracket = <A, B>(
+  acquire: TaskOption<A>,
+  use: (a: A) => TaskOption<B>,
+  release: (a: A) => TaskOption<void>
+): TaskOption<B> =>
+  acquire.chain(
+    a =>
+      new TaskOption(
+        new Task(() =>
+          bracketPromise(
+            () => use(a).run(),
+            ob =>
+              release(a)
+                .run()
+                .then(ov => ov.chain(() => ob)),
+            () => release(a).run()
+          )
+        )
+      )
+  )
+
+export const cachedBy = <P extends Array<unknown>, K>(keyFn: (...args: P) => K, options: CacheOptions = {}) => <A>(
+  f: (...args: P) => TaskOption<A>
+): ((...args: P) => TaskOption<A>) => {
+  const cache = getCache<K, Option<A>>(options, o => o.isNone())
+  return (...args) => new TaskOption(new Task(() => cache.get(keyFn(...args), () => f(...args).run())))
+}
+
+export const cached = (options: CacheOptions = {}) => <A>(ma: TaskOption<A>): TaskOption<A> =>
+  cachedBy(() => undefined, options)(() => ma)()
+
+export const memoize = <A>(ma: TaskOption<A>): TaskOption<A> => cached()(ma)
 
-export const taskOption: Monad1<URI> = {
+export const taskOption: Monad1<URI> & Alternative1<URI> & Filterable1<URI> & MonadIO1<URI> & MonadTask1<URI> = {
   URI,
-  map,
+  map: (fa, f) => fa.map(f),
   of,
-  ap,
-  chain
+  ap: (fab, fa) => fa.ap(fab),
+  chain: (fa, f) => fa.chain(f),
+  alt: (fx, fy) => fx.alt(fy),
+  zero,
+  compact: fa => fa.filterMap(identity),
+  separate: fa => {
+    const { left, right } = F.separate(fa.value)
+    return { left: new TaskOption(left), right: new TaskOption(right) }
+  },
+  partitionMap: (fa, f) => taskOption.separate(fa.map(f)),
+  partition: <A>(fa: TaskOption<A>, p: Predicate<A>): Separated<TaskOption<A>, TaskOption<A>> => {
+    const { left, right } = F.partition(fa.value, p)
+    return { left: new TaskOption(left), right: new TaskOption(right) }
+  },
+  filterMap: (fa, f) => fa.filterMap(f),
+  filter: <A>(fa: TaskOption<A>, p: Predicate<A>): TaskOption<A> => fa.filter(p),
+  fromIO,
+  fromTask
 }
+
+/**
+ * The parallel `Applicative1`: the same `ap` as `taskOption`, which already runs its arguments in parallel
+ */
+export const taskOptionPar: Applicative1<URI> = {
+  URI,
+  map: taskOption.map,
+  of,
+  ap: taskOption.ap
+}
+
+/**
+ * Like `taskOption` but `ap` runs its arguments sequentially (the function first)
+ */
+export const taskOptionSeq: typeof taskOption = {
+  ...taskOption,
+  ap: (fab, fa) => fab.chain(f => fa.map(f))
+}
+
+//
+// pipeables
+//
+
+export const map = <A, B>(f: (a: A) => B) => (fa: TaskOption<A>): TaskOption<B> => fa.map(f)
+
+export const ap = <A>(fa: TaskOption<A>) => <B>(fab: TaskOption<(a: A) => B>): TaskOption<B> => fa.ap(fab)
+
+export const chain = <A, B>(f: (a: A) => TaskOption<B>) => (ma: TaskOption<A>): TaskOption<B> => ma.chain(f)
+
+export const flatten = <A>(mma: TaskOption<TaskOption<A>>): TaskOption<A> => mma.chain(identity)
+
+export const alt = <A>(fy: TaskOption<A>) => (fx: TaskOption<A>): TaskOption<A> => fx.alt(fy)
+
+export const orElse = <A>(f: Lazy<TaskOption<A>>) => (fa: TaskOption<A>): TaskOption<A> => fa.orElse(f)
+
+export const fold = <A, R>(onNone: R, onSome: (a: A) => R) => (ma: TaskOption<A>): Task<R> => ma.fold(onNone, onSome)
+
+export const getOrElse = <A>(a: A) => (ma: TaskOption<A>): Task<A> => ma.getOrElse(a)
+
+export const getOrElseL = <A>(f: Lazy<A>) => (ma: TaskOption<A>): Task<A> => ma.getOrElseL(f)
+
+export const compact = taskOption.compact
+
+export const separate = taskOption.separate
+
+export function filter<A, B extends A>(refinement: Refinement<A, B>): (fa: TaskOption<A>) => TaskOption<B>
+export function filter<A>(predicate: Predicate<A>): (fa: TaskOption<A>) => TaskOption<A>
+export function filter<A>(predicate: Predicate<A>): (fa: TaskOption<A>) => TaskOption<A> {
+  return fa => fa.filter(predicate)
+}
+
+export const filterMap = <A, B>(f: (a: A) => Option<B>) => (fa: TaskOption<A>): TaskOption<B> => fa.filterMap(f)
+
+export const partition = <A>(predicate: Predicate<A>) => (fa: TaskOption<A>): Separated<TaskOption<A>, TaskOption<A>> =>
+  taskOption.partition(fa, predicate)
+
+export const partitionMap = <A, RL, RR>(f: (a: A) => Either<RL, RR>) => (
+  fa: TaskOption<A>
+): Separated<TaskOption<RL>, TaskOption<RR>> => taskOption.partitionMap(fa, f)
@@ -0,0 +1,116 @@
+import { getApplicativeComposition } from 'fp-ts/lib/Applicative'
+import { Bifunctor2 } from 'fp-ts/lib/Bifunctor'
+import { left as eitherLeft, right as eitherRight } from 'fp-ts/lib/Either'
+import { Functor2 } from 'fp-ts/lib/Functor'
+import { Monad2C } from 'fp-ts/lib/Monad'
+import { Semigroup } from 'fp-ts/lib/Semigroup'
+import * as task from 'fp-ts/lib/Task'
+import { TaskEither } from 'fp-ts/lib/TaskEither'
+import * as these from 'fp-ts/lib/These'
+import { phantom } from 'fp-ts/lib/function'
+
+declare module 'fp-ts/lib/HKT' {
+  interface URI2HKT2<L, A> {
+    TaskThese: TaskThese<L, A>
+  }
+}
+
+export const URI = 'TaskThese'
+
+export type URI = typeof URI
+
+export class TaskThese<L, A> {
+  readonly _A!: A
+  readonly _L!: L
+  readonly _URI!: URI
+  constructor(readonly value: task.Task<these.These<L, A>>) {}
+  run(): Promise<these.These<L, A>> {
+    return this.value.run()
+  }
+  map<B>(f: (a: A) => B): TaskThese<L, B> {
+    return new TaskThese(this.value.map(t => t.map(f)))
+  }
+  bimap<M, B>(f: (l: L) => M, g: (a: A) => B): TaskThese<M, B> {
+    return new TaskThese(this.value.map(t => t.bimap(f, g)))
+  }
+  fold<R>(this_: (l: L) => R, that: (a: A) => R, both: (l: L, a: A) => R): task.Task<R> {
+    return this.value.map(t => t.fold(this_, that, both))
+  }
+  toTaskEither(): TaskEither<L, A> {
+    return new TaskEither(
+      this.fold(l => eitherLeft<L, A>(l), a => eitherRight<L, A>(a), (_, a) => eitherRight<L, A>(a))
+    )
+  }
+}
+
+const map = <L, A, B>(fa: TaskThese<L, A>, f: (a: A) => B): TaskThese<L, B> => {
+  return fa.map(f)
+}
+
+const bimap = <L, M, A, B>(fla: TaskThese<L, A>, f: (l: L) => M, g: (a: A) => B): TaskThese<M, B> => {
+  return fla.bimap(f, g)
+}
+
+export const getMonad = <L>(S: Semigroup<L>): Monad2C<URI, L> => {
+  const taskTheseApplicative = getApplicativeComposition(task.task, these.getMonad(S))
+
+  const of = <A>(a: A): TaskThese<L, A> => new TaskThese(taskTheseApplicative.of(a))
+
+  const ap = <A, B>(fab: TaskThese<L, (a: A) => B>, fa: TaskThese<L, A>): TaskThese<L, B> => {
+    return new TaskThese(taskTheseApplicative.ap(fab.value, fa.value))
+  }
+
+  const chain = <A, B>(fa: TaskThese<L, A>, f: (a: A) => TaskThese<L, B>): TaskThese<L, B> => {
+    return new TaskThese(
+      fa.value.chain(ta =>
+        ta.fold(
+          l => task.task.of(these.this_<L, B>(l)),
+          a => f(a).value,
+          (l1, a) =>
+            f(a).value.map(tb =>
+              tb.fold(
+                l2 => these.this_<L, B>(S.concat(l1, l2)),
+                b => these.both(l1, b),
+                (l2, b) => these.both(S.concat(l1, l2), b)
+              )
+            )
+        )
+      )
+    )
+  }
+
+  return {
+    URI,
+    _L: phantom,
+    map,
+    of,
+    ap,
+    chain
+  }
+}
+
+export const this_ = <L, A>(l: L): TaskThese<L, A> => {
+  return new TaskThese(task.task.of(these.this_(l)))
+}
+
+export const that = <L, A>(a: A): TaskThese<L, A> => {
+  return new TaskThese(task.task.of(these.that(a)))
+}
+
+export const both = <L, A>(l: L, a: A): TaskThese<L, A> => {
+  return new TaskThese(task.task.of(these.both(l, a)))
+}
+
+export const fromThese = <L, A>(fa: these.These<L, A>): TaskThese<L, A> => {
+  return new TaskThese(task.task.of(fa))
+}
+
+export const toTaskEither = <L, A>(fa: TaskThese<L, A>): TaskEither<L, A> => {
+  return fa.toTaskEither()
+}
+
+export const taskThese: Functor2<URI> & Bifunctor2<URI> = {
+  URI,
+  map,
+  bimap
+}
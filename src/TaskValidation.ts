@@ -1,9 +1,14 @@
+import { Alt2C } from 'fp-ts/lib/Alt'
 import { Applicative2C, getApplicativeComposition } from 'fp-ts/lib/Applicative'
+import { Bifunctor2 } from 'fp-ts/lib/Bifunctor'
+import { left as eitherLeft, right as eitherRight } from 'fp-ts/lib/Either'
 import { Functor2, getFunctorComposition } from 'fp-ts/lib/Functor'
 import { Semigroup } from 'fp-ts/lib/Semigroup'
 import * as task from 'fp-ts/lib/Task'
+import { TaskEither } from 'fp-ts/lib/TaskEither'
 import * as validation from 'fp-ts/lib/Validation'
-import { phantom } from 'fp-ts/lib/function'
+import { Lazy, phantom } from 'fp-ts/lib/function'
+import { bracketPromise } from './bracket'
 
 declare module 'fp-ts/lib/HKT' {
   interface URI2HKT2<L, A> {
@@ -22,20 +27,36 @@ export class TaskValidation<L, A> {
   readonly _L!: L
   readonly _URI!: URI
   constructor(readonly value: task.Task<validation.Validation<L, A>>) {}
+  run(): Promise<validation.Validation<L, A>> {
+    return this.value.run()
+  }
   map<B>(f: (a: A) => B): TaskValidation<L, B> {
     return new TaskValidation(taskValidationFunctor.map(this.value, f))
   }
+  mapFailure<M>(f: (l: L) => M): TaskValidation<M, A> {
+    return new TaskValidation(this.value.map(v => v.mapFailure(f)))
+  }
+  bimap<M, B>(f: (l: L) => M, g: (a: A) => B): TaskValidation<M, B> {
+    return new TaskValidation(this.value.map(v => v.bimap(f, g)))
+  }
   fold<R>(failure: (l: L) => R, success: (a: A) => R): task.Task<R> {
     return this.value.map(v => v.fold(failure, success))
   }
+  chainEither<B>(f: (a: A) => TaskValidation<L, B>): TaskValidation<L, B> {
+    return new TaskValidation(
+      this.value.chain(v => v.fold(l => task.task.of(validation.failure<L, B>(l)), a => f(a).value))
+    )
+  }
+  toTaskEither(): TaskEither<L, A> {
+    return new TaskEither(this.fold(l => eitherLeft<L, A>(l), a => eitherRight<L, A>(a)))
+  }
 }
 
-const map = <L, A, B>(fa: TaskValidation<L, A>, f: (a: A) => B): TaskValidation<L, B> => {
-  return fa.map(f)
-}
-
-export const getApplicative = <L>(S: Semigroup<L>): Applicative2C<URI, L> => {
-  const taskValidationApplicative = getApplicativeComposition(task.task, validation.getApplicative(S))
+export const getApplicative = <L>(S: Semigroup<L>, parallel: boolean = true): Applicative2C<URI, L> => {
+  const taskValidationApplicative = getApplicativeComposition(
+    parallel ? task.task : task.taskSeq,
+    validation.getApplicative(S)
+  )
 
   const of = <A>(a: A): TaskValidation<L, A> => new TaskValidation(taskValidationApplicative.of(a))
 
@@ -45,13 +66,117 @@ export const getApplicative = <L>(S: Semigroup<L>): Applicative2C<URI, L> => {
   return {
     URI,
     _L: phantom,
-    map,
+    map: (fa, f) => fa.map(f),
     of,
     ap
   }
 }
 
-export const taskValidation: Functor2<URI> = {
+export const getAlt = <L>(S: Semigroup<L>): Alt2C<URI, L> => {
+  const validationAlt = validation.getAlt(S)
+
+  const alt = <A>(fx: TaskValidation<L, A>, fy: TaskValidation<L, A>): TaskValidation<L, A> => {
+    return new TaskValidation(
+      fx.value.chain(vx => (vx.isSuccess() ? task.task.of(vx) : fy.value.map(vy => validationAlt.alt(vx, vy))))
+    )
+  }
+  return {
+    URI,
+    _L: phantom,
+    map: (fa, f) => fa.map(f),
+    alt
+  }
+}
+
+export const success = <L, A>(a: A): TaskValidation<L, A> => {
+  return new TaskValidation(task.task.of(validation.success(a)))
+}
+
+export const failure = <L, A>(l: L): TaskValidation<L, A> => {
+  return new TaskValidation(task.task.of(validation.failure(l)))
+}
+
+export const fromValidation = <L, A>(fa: validation.Validation<L, A>): TaskValidation<L, A> => {
+  return new TaskValidation(task.task.of(fa))
+}
+
+export const fromTask = <L, A>(fa: task.Task<A>): TaskValidation<L, A> => {
+  return new TaskValidation(fa.map(a => validation.success<L, A>(a)))
+}
+
+export const fromTaskEither = <L, A>(fa: TaskEither<L, A>): TaskValidation<L, A> => {
+  return new TaskValidation(fa.value.map(validation.fromEither))
+}
+
+export const toTaskEither = <L, A>(fa: TaskValidation<L, A>): TaskEither<L, A> => {
+  return fa.toTaskEither()
+}
+
+export const tryCatch = <L, A>(f: Lazy<Promise<A>>, onrejected: (reason: unknown) => L): TaskValidation<L, A> => {
+  return new TaskValidation(
+    new task.Task(() =>
+      new Promise<A>(resolve => resolve(f())).then(
+        a => validation.success<L, A>(a),
+        reason => validation.failure<L, A>(onrejected(reason))
+      )
+    )
+  )
+}
+
+export const bracket = <L, A, B>(
+  acquire: TaskValidation<L, A>,
+  use: (a: A) => TaskValidation<L, B>,
+  release: (a: A) => TaskValidation<L, void>
+): TaskValidation<L, B> => {
+  return acquire.chainEither(
+    a =>
+      new TaskValidation(
+        new task.Task(() =>
+          bracketPromise(
+            () => use(a).run(),
+            vb =>
+              release(a)
+                .run()
+                .then(vv => vv.fold(l => validation.failure<L, B>(l), () => vb)),
+            () => release(a).run()
+          )
+        )
+      )
+  )
+}
+
+export const taskValidation: Functor2<URI> & Bifunctor2<URI> = {
   URI,
-  map
+  map: (fa, f) => fa.map(f),
+  bimap: (fla, f, g) => fla.bimap(f, g)
+}
+
+//
+// pipeables
+//
+
+export const map = <A, B>(f: (a: A) => B) => <L>(fa: TaskValidation<L, A>): TaskValidation<L, B> => {
+  return fa.map(f)
+}
+
+export const mapFailure = <L, M>(f: (l: L) => M) => <A>(fa: TaskValidation<L, A>): TaskValidation<M, A> => {
+  return fa.mapFailure(f)
+}
+
+export const bimap = <L, M, A, B>(f: (l: L) => M, g: (a: A) => B) => (
+  fa: TaskValidation<L, A>
+): TaskValidation<M, B> => {
+  return fa.bimap(f, g)
+}
+
+export const chainEither = <L, A, B>(f: (a: A) => TaskValidation<L, B>) => (
+  ma: TaskValidation<L, A>
+): TaskValidation<L, B> => {
+  return ma.chainEither(f)
+}
+
+export const fold = <L, A, R>(failure: (l: L) => R, success: (a: A) => R) => (
+  ma: TaskValidation<L, A>
+): task.Task<R> => {
+  return ma.fold(failure, success)
 }
@@ -1,8 +1,13 @@
+import { Bifunctor2 } from 'fp-ts/lib/Bifunctor'
+import { Foldable2v2 } from 'fp-ts/lib/Foldable2v'
+import { Functor2 } from 'fp-ts/lib/Functor'
 import { Monad2C } from 'fp-ts/lib/Monad'
-import { Option, some as optionSome } from 'fp-ts/lib/Option'
+import { Monoid } from 'fp-ts/lib/Monoid'
+import { Option, none as optionNone, some as optionSome } from 'fp-ts/lib/Option'
 import * as optionT from 'fp-ts/lib/OptionT'
-import { These, URI as TheseURI } from 'fp-ts/lib/These'
-import { phantom } from 'fp-ts/lib/function'
+import { Semigroup } from 'fp-ts/lib/Semigroup'
+import { These, URI as TheseURI, both, getMonad as getTheseMonad, that } from 'fp-ts/lib/These'
+import { identity, phantom } from 'fp-ts/lib/function'
 
 declare module 'fp-ts/lib/HKT' {
   interface URI2HKT2<L, A> {
@@ -19,9 +24,36 @@ export class TheseOption<L, A> {
   readonly _L!: L
   readonly _URI!: URI
   constructor(readonly value: These<L, Option<A>>) {}
+  map<B>(f: (a: A) => B): TheseOption<L, B> {
+    return new TheseOption(this.value.map(o => o.map(f)))
+  }
+  ap<B>(S: Semigroup<L>, fab: TheseOption<L, (a: A) => B>): TheseOption<L, B> {
+    return getMonad(S).ap(fab, this)
+  }
+  ap_<B, C>(this: TheseOption<L, (b: B) => C>, S: Semigroup<L>, fb: TheseOption<L, B>): TheseOption<L, C> {
+    return fb.ap(S, this)
+  }
+  chain<B>(S: Semigroup<L>, f: (a: A) => TheseOption<L, B>): TheseOption<L, B> {
+    return getMonad(S).chain(this, f)
+  }
+  bimap<M, B>(f: (l: L) => M, g: (a: A) => B): TheseOption<M, B> {
+    return new TheseOption(this.value.bimap(f, o => o.map(g)))
+  }
+  fold<R>(onNone: R, onSome: (a: A) => R): These<L, R> {
+    return this.value.map(o => o.fold(onNone, onSome))
+  }
+  getOrElse(a: A): These<L, A> {
+    return this.fold(a, identity)
+  }
+  reduce<B>(b: B, f: (b: B, a: A) => B): B {
+    return this.value.reduce(b, (b, o) => o.reduce(b, f))
+  }
 }
 
-export const getMonad = <L>(M: Monad2C<TheseURI, L>): Monad2C<URI, L> => {
+const isMonad = <L>(M: Semigroup<L> | Monad2C<TheseURI, L>): M is Monad2C<TheseURI, L> => 'chain' in M
+
+export const getMonad = <L>(S: Semigroup<L> | Monad2C<TheseURI, L>): Monad2C<URI, L> => {
+  const M = isMonad(S) ? S : getTheseMonad(S)
   const T = optionT.getOptionT2v(M)
 
   const map = <A, B>(fa: TheseOption<L, A>, f: (a: A) => B): TheseOption<L, B> => new TheseOption(T.map(fa.value, f))
@@ -58,3 +90,33 @@ export const getSome = <L>(M: Monad2C<URI, L>): (<A>(a: A) => TheseOption<L, A>)
 export const getFromThese = <L, A>(fa: These<L, A>): TheseOption<L, A> => {
   return new TheseOption(fa.map(optionSome))
 }
+
+export const none: TheseOption<never, never> = new TheseOption(that(optionNone))
+
+export const warn = <L, A>(l: L, a: A): TheseOption<L, A> => {
+  return new TheseOption(both(l, optionSome(a)))
+}
+
+export const fromOption = <L, A>(fa: Option<A>): TheseOption<L, A> => {
+  return new TheseOption(that(fa))
+}
+
+const map = <L, A, B>(fa: TheseOption<L, A>, f: (a: A) => B): TheseOption<L, B> => fa.map(f)
+
+const bimap = <L, M, A, B>(fla: TheseOption<L, A>, f: (l: L) => M, g: (a: A) => B): TheseOption<M, B> => fla.bimap(f, g)
+
+const reduce = <L, A, B>(fa: TheseOption<L, A>, b: B, f: (b: B, a: A) => B): B => fa.reduce(b, f)
+
+const foldMap = <M>(M: Monoid<M>) => <L, A>(fa: TheseOption<L, A>, f: (a: A) => M): M =>
+  fa.reduce(M.empty, (m, a) => M.concat(m, f(a)))
+
+const foldr = <L, A, B>(fa: TheseOption<L, A>, b: B, f: (a: A, b: B) => B): B => fa.reduce(b, (b, a) => f(a, b))
+
+export const theseOption: Functor2<URI> & Bifunctor2<URI> & Foldable2v2<URI> = {
+  URI,
+  map,
+  bimap,
+  reduce,
+  foldMap,
+  foldr
+}
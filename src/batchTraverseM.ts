@@ -1,43 +1,98 @@
-import { array } from 'fp-ts/lib/Array'
-import { identity } from 'fp-ts/lib/function'
+import { array, chunksOf } from 'fp-ts/lib/Array'
+import { identity, tuple } from 'fp-ts/lib/function'
 import { HKT, Type, Type2, Type3, URIS, URIS2, URIS3 } from 'fp-ts/lib/HKT'
 import { Monad, Monad1, Monad2, Monad2C, Monad3, Monad3C } from 'fp-ts/lib/Monad'
+import { AbortSignal } from './cancel'
 
 /**
  * Like `array.traverse` but actions are batched in chunks.
  * You can use `Array.chunksOf` to provide the `as` argument.
+ * See also `traverseWithConcurrency` which doesn't wait for a whole chunk before starting the next actions.
+ * If `signal` is aborted, the pending chunks are not started and the result is `onCancel` applied to the results of
+ * the completed chunks (by default these results, use e.g. a `Left` to fail instead).
  */
 export function batchTraverseM<M extends URIS3>(
   M: Monad3<M>
-): <U, L, A, B>(as: Array<Array<A>>, f: (a: A) => Type3<M, U, L, B>) => Type3<M, U, L, Array<B>>
+): <U, L, A, B>(
+  as: Array<Array<A>>,
+  f: (a: A) => Type3<M, U, L, B>,
+  signal?: AbortSignal,
+  onCancel?: (bs: Array<B>) => Type3<M, U, L, Array<B>>
+) => Type3<M, U, L, Array<B>>
 export function batchTraverseM<M extends URIS3, U, L>(
   M: Monad3C<M, U, L>
-): <A, B>(as: Array<Array<A>>, f: (a: A) => Type3<M, U, L, B>) => Type3<M, U, L, Array<B>>
+): <A, B>(
+  as: Array<Array<A>>,
+  f: (a: A) => Type3<M, U, L, B>,
+  signal?: AbortSignal,
+  onCancel?: (bs: Array<B>) => Type3<M, U, L, Array<B>>
+) => Type3<M, U, L, Array<B>>
 export function batchTraverseM<M extends URIS2>(
   M: Monad2<M>
-): <L, A, B>(as: Array<Array<A>>, f: (a: A) => Type2<M, L, B>) => Type2<M, L, Array<B>>
+): <L, A, B>(
+  as: Array<Array<A>>,
+  f: (a: A) => Type2<M, L, B>,
+  signal?: AbortSignal,
+  onCancel?: (bs: Array<B>) => Type2<M, L, Array<B>>
+) => Type2<M, L, Array<B>>
 export function batchTraverseM<M extends URIS2, L>(
   M: Monad2C<M, L>
-): <A, B>(as: Array<Array<A>>, f: (a: A) => Type2<M, L, B>) => Type2<M, L, Array<B>>
+): <A, B>(
+  as: Array<Array<A>>,
+  f: (a: A) => Type2<M, L, B>,
+  signal?: AbortSignal,
+  onCancel?: (bs: Array<B>) => Type2<M, L, Array<B>>
+) => Type2<M, L, Array<B>>
 export function batchTraverseM<M extends URIS>(
   M: Monad1<M>
-): <A, B>(as: Array<Array<A>>, f: (a: A) => Type<M, B>) => Type<M, Array<B>>
-export function batchTraverseM<M>(M: Monad<M>): <A, B>(as: Array<Array<A>>, f: (a: A) => HKT<M, B>) => HKT<M, Array<B>>
+): <A, B>(
+  as: Array<Array<A>>,
+  f: (a: A) => Type<M, B>,
+  signal?: AbortSignal,
+  onCancel?: (bs: Array<B>) => Type<M, Array<B>>
+) => Type<M, Array<B>>
 export function batchTraverseM<M>(
   M: Monad<M>
-): <A, B>(as: Array<Array<A>>, f: (a: A) => HKT<M, B>) => HKT<M, Array<B>> {
+): <A, B>(
+  as: Array<Array<A>>,
+  f: (a: A) => HKT<M, B>,
+  signal?: AbortSignal,
+  onCancel?: (bs: Array<B>) => HKT<M, Array<B>>
+) => HKT<M, Array<B>>
+export function batchTraverseM<M>(
+  M: Monad<M>
+): <A, B>(
+  as: Array<Array<A>>,
+  f: (a: A) => HKT<M, B>,
+  signal?: AbortSignal,
+  onCancel?: (bs: Array<B>) => HKT<M, Array<B>>
+) => HKT<M, Array<B>> {
   const traverseM = array.traverse(M)
-  return <A, B>(as: Array<Array<A>>, f: (a: A) => HKT<M, B>) =>
-    as.reduce(
-      (mbs: HKT<M, Array<B>>, chunk: Array<A>) =>
-        M.chain(mbs, bs =>
-          M.map(traverseM(chunk, f), chunk => {
-            bs.push(...chunk)
-            return bs
-          })
-        ),
-      M.of([])
+  return <A, B>(
+    as: Array<Array<A>>,
+    f: (a: A) => HKT<M, B>,
+    signal?: AbortSignal,
+    onCancel: (bs: Array<B>) => HKT<M, Array<B>> = M.of
+  ) => {
+    const isCancelled = (): boolean => signal !== undefined && signal.aborted
+    const total = as.reduce((n, chunk) => n + chunk.length, 0)
+    return M.chain(
+      as.reduce(
+        (mbs: HKT<M, Array<B>>, chunk: Array<A>) =>
+          M.chain(mbs, bs =>
+            isCancelled()
+              ? M.of(bs)
+              : M.map(traverseM(chunk, f), chunk => {
+                  bs.push(...chunk)
+                  return bs
+                })
+          ),
+        // a new array for each run
+        M.map(M.of(undefined), (): Array<B> => [])
+      ),
+      bs => (bs.length < total ? onCancel(bs) : M.of(bs))
     )
+  }
 }
 
 /**
@@ -62,3 +117,173 @@ export function batchSequenceM<M>(M: Monad<M>): <A>(as: Array<Array<HKT<M, A>>>)
   const batchTraverseMM = batchTraverseM(M)
   return fas => batchTraverseMM(fas, identity)
 }
+
+/**
+ * Like `array.traverseWithIndex` but actions are batched in chunks of size `n`.
+ *
+ * @since 0.0.3
+ */
+export function batchTraverseWithIndexM<M extends URIS3>(
+  M: Monad3<M>
+): <U, L, A, B>(n: number, as: Array<A>, f: (i: number, a: A) => Type3<M, U, L, B>) => Type3<M, U, L, Array<B>>
+export function batchTraverseWithIndexM<M extends URIS3, U, L>(
+  M: Monad3C<M, U, L>
+): <A, B>(n: number, as: Array<A>, f: (i: number, a: A) => Type3<M, U, L, B>) => Type3<M, U, L, Array<B>>
+export function batchTraverseWithIndexM<M extends URIS2>(
+  M: Monad2<M>
+): <L, A, B>(n: number, as: Array<A>, f: (i: number, a: A) => Type2<M, L, B>) => Type2<M, L, Array<B>>
+export function batchTraverseWithIndexM<M extends URIS2, L>(
+  M: Monad2C<M, L>
+): <A, B>(n: number, as: Array<A>, f: (i: number, a: A) => Type2<M, L, B>) => Type2<M, L, Array<B>>
+export function batchTraverseWithIndexM<M extends URIS>(
+  M: Monad1<M>
+): <A, B>(n: number, as: Array<A>, f: (i: number, a: A) => Type<M, B>) => Type<M, Array<B>>
+export function batchTraverseWithIndexM<M>(
+  M: Monad<M>
+): <A, B>(n: number, as: Array<A>, f: (i: number, a: A) => HKT<M, B>) => HKT<M, Array<B>>
+export function batchTraverseWithIndexM<M>(
+  M: Monad<M>
+): <A, B>(n: number, as: Array<A>, f: (i: number, a: A) => HKT<M, B>) => HKT<M, Array<B>> {
+  const batchTraverseMM = batchTraverseM(M)
+  return (n, as, f) => batchTraverseMM(chunksOf(as.map((a, i) => tuple(i, a)), n), ([i, a]) => f(i, a))
+}
+
+/**
+ * Like `record.traverseWithKey` but actions are batched in chunks of size `n`.
+ *
+ * @since 0.0.3
+ */
+export function batchTraverseRecordM<M extends URIS3>(
+  M: Monad3<M>
+): <U, L, A, B>(
+  n: number,
+  r: Record<string, A>,
+  f: (k: string, a: A) => Type3<M, U, L, B>
+) => Type3<M, U, L, Record<string, B>>
+export function batchTraverseRecordM<M extends URIS3, U, L>(
+  M: Monad3C<M, U, L>
+): <A, B>(
+  n: number,
+  r: Record<string, A>,
+  f: (k: string, a: A) => Type3<M, U, L, B>
+) => Type3<M, U, L, Record<string, B>>
+export function batchTraverseRecordM<M extends URIS2>(
+  M: Monad2<M>
+): <L, A, B>(n: number, r: Record<string, A>, f: (k: string, a: A) => Type2<M, L, B>) => Type2<M, L, Record<string, B>>
+export function batchTraverseRecordM<M extends URIS2, L>(
+  M: Monad2C<M, L>
+): <A, B>(n: number, r: Record<string, A>, f: (k: string, a: A) => Type2<M, L, B>) => Type2<M, L, Record<string, B>>
+export function batchTraverseRecordM<M extends URIS>(
+  M: Monad1<M>
+): <A, B>(n: number, r: Record<string, A>, f: (k: string, a: A) => Type<M, B>) => Type<M, Record<string, B>>
+export function batchTraverseRecordM<M>(
+  M: Monad<M>
+): <A, B>(n: number, r: Record<string, A>, f: (k: string, a: A) => HKT<M, B>) => HKT<M, Record<string, B>>
+export function batchTraverseRecordM<M>(
+  M: Monad<M>
+): <A, B>(n: number, r: Record<string, A>, f: (k: string, a: A) => HKT<M, B>) => HKT<M, Record<string, B>> {
+  const batchTraverseMM = batchTraverseM(M)
+  return <A, B>(n: number, r: Record<string, A>, f: (k: string, a: A) => HKT<M, B>) => {
+    const ks = Object.keys(r)
+    return M.map(batchTraverseMM(chunksOf(ks, n), k => f(k, r[k])), bs => {
+      const out: Record<string, B> = {}
+      ks.forEach((k, i) => {
+        out[k] = bs[i]
+      })
+      return out
+    })
+  }
+}
+
+/**
+ * Like `record.sequence` but actions are batched in chunks of size `n`.
+ *
+ * @since 0.0.3
+ */
+export function batchSequenceRecordM<M extends URIS3>(
+  M: Monad3<M>
+): <U, L, A>(n: number, r: Record<string, Type3<M, U, L, A>>) => Type3<M, U, L, Record<string, A>>
+export function batchSequenceRecordM<M extends URIS3, U, L>(
+  M: Monad3C<M, U, L>
+): <A>(n: number, r: Record<string, Type3<M, U, L, A>>) => Type3<M, U, L, Record<string, A>>
+export function batchSequenceRecordM<M extends URIS2>(
+  M: Monad2<M>
+): <L, A>(n: number, r: Record<string, Type2<M, L, A>>) => Type2<M, L, Record<string, A>>
+export function batchSequenceRecordM<M extends URIS2, L>(
+  M: Monad2C<M, L>
+): <A>(n: number, r: Record<string, Type2<M, L, A>>) => Type2<M, L, Record<string, A>>
+export function batchSequenceRecordM<M extends URIS>(
+  M: Monad1<M>
+): <A>(n: number, r: Record<string, Type<M, A>>) => Type<M, Record<string, A>>
+export function batchSequenceRecordM<M>(
+  M: Monad<M>
+): <A>(n: number, r: Record<string, HKT<M, A>>) => HKT<M, Record<string, A>>
+export function batchSequenceRecordM<M>(
+  M: Monad<M>
+): <A>(n: number, r: Record<string, HKT<M, A>>) => HKT<M, Record<string, A>> {
+  const batchTraverseRecordMM = batchTraverseRecordM(M)
+  return (n, r) => batchTraverseRecordMM(n, r, (_, fa) => fa)
+}
+
+/**
+ * Like `batchTraverseRecordM` but for `Map`s, the keys of the returned `Map` are in the same order.
+ *
+ * @since 0.0.3
+ */
+export function batchTraverseMapM<M extends URIS3>(
+  M: Monad3<M>
+): <U, L, K, A, B>(n: number, m: Map<K, A>, f: (k: K, a: A) => Type3<M, U, L, B>) => Type3<M, U, L, Map<K, B>>
+export function batchTraverseMapM<M extends URIS3, U, L>(
+  M: Monad3C<M, U, L>
+): <K, A, B>(n: number, m: Map<K, A>, f: (k: K, a: A) => Type3<M, U, L, B>) => Type3<M, U, L, Map<K, B>>
+export function batchTraverseMapM<M extends URIS2>(
+  M: Monad2<M>
+): <L, K, A, B>(n: number, m: Map<K, A>, f: (k: K, a: A) => Type2<M, L, B>) => Type2<M, L, Map<K, B>>
+export function batchTraverseMapM<M extends URIS2, L>(
+  M: Monad2C<M, L>
+): <K, A, B>(n: number, m: Map<K, A>, f: (k: K, a: A) => Type2<M, L, B>) => Type2<M, L, Map<K, B>>
+export function batchTraverseMapM<M extends URIS>(
+  M: Monad1<M>
+): <K, A, B>(n: number, m: Map<K, A>, f: (k: K, a: A) => Type<M, B>) => Type<M, Map<K, B>>
+export function batchTraverseMapM<M>(
+  M: Monad<M>
+): <K, A, B>(n: number, m: Map<K, A>, f: (k: K, a: A) => HKT<M, B>) => HKT<M, Map<K, B>>
+export function batchTraverseMapM<M>(
+  M: Monad<M>
+): <K, A, B>(n: number, m: Map<K, A>, f: (k: K, a: A) => HKT<M, B>) => HKT<M, Map<K, B>> {
+  const batchTraverseMM = batchTraverseM(M)
+  return <K, A, B>(n: number, m: Map<K, A>, f: (k: K, a: A) => HKT<M, B>) => {
+    const entries = Array.from(m.entries())
+    return M.map(batchTraverseMM(chunksOf(entries, n), ([k, a]) => f(k, a)), bs => {
+      const out = new Map<K, B>()
+      entries.forEach(([k], i) => out.set(k, bs[i]))
+      return out
+    })
+  }
+}
+
+/**
+ * Like `batchSequenceRecordM` but for `Map`s, the keys of the returned `Map` are in the same order.
+ *
+ * @since 0.0.3
+ */
+export function batchSequenceMapM<M extends URIS3>(
+  M: Monad3<M>
+): <U, L, K, A>(n: number, m: Map<K, Type3<M, U, L, A>>) => Type3<M, U, L, Map<K, A>>
+export function batchSequenceMapM<M extends URIS3, U, L>(
+  M: Monad3C<M, U, L>
+): <K, A>(n: number, m: Map<K, Type3<M, U, L, A>>) => Type3<M, U, L, Map<K, A>>
+export function batchSequenceMapM<M extends URIS2>(
+  M: Monad2<M>
+): <L, K, A>(n: number, m: Map<K, Type2<M, L, A>>) => Type2<M, L, Map<K, A>>
+export function batchSequenceMapM<M extends URIS2, L>(
+  M: Monad2C<M, L>
+): <K, A>(n: number, m: Map<K, Type2<M, L, A>>) => Type2<M, L, Map<K, A>>
+export function batchSequenceMapM<M extends URIS>(
+  M: Monad1<M>
+): <K, A>(n: number, m: Map<K, Type<M, A>>) => Type<M, Map<K, A>>
+export function batchSequenceMapM<M>(M: Monad<M>): <K, A>(n: number, m: Map<K, HKT<M, A>>) => HKT<M, Map<K, A>>
+export function batchSequenceMapM<M>(M: Monad<M>): <K, A>(n: number, m: Map<K, HKT<M, A>>) => HKT<M, Map<K, A>> {
+  const batchTraverseMapMM = batchTraverseMapM(M)
+  return (n, m) => batchTraverseMapMM(n, m, (_, fa) => fa)
+}
@@ -0,0 +1,41 @@
+/**
+ * @file The building block of `bracket` in `TaskOption`, `StateTaskEither` and `TaskValidation`, and of `Resource`.
+ *
+ * The release always runs once `use` has started. If `use` rejects, the result rejects with the same reason, even if the
+ * release rejects too.
+ */
+import { Lazy } from 'fp-ts/lib/function'
+
+/**
+ * Runs `use`, then `release` with its result (the value `release` returns is the final result, see `bracket` in
+ * `TaskOption` to combine a failing release with the result of `use`). When `use` rejects, runs `onRejection` instead
+ * and rejects with the reason of `use`
+ *
+ * @example
+ * import { bracketPromise } from 'fp-ts-contrib/lib/bracket'
+ *
+ * const log: Array<string> = []
+ *
+ * bracketPromise(
+ *   () => Promise.reject('use failed'),
+ *   (n: number) => Promise.resolve(n),
+ *   () => {
+ *     log.push('released')
+ *     return Promise.reject('release failed')
+ *   }
+ * ).catch(reason => {
+ *   assert.strictEqual(reason, 'use failed')
+ *   assert.deepStrictEqual(log, ['released'])
+ * })
+ *
+ * @since 0.0.3
+ */
+export const bracketPromise = <B>(
+  use: Lazy<Promise<B>>,
+  release: (b: B) => Promise<B>,
+  onRejection: Lazy<Promise<unknown>>
+): Promise<B> =>
+  new Promise<B>(resolve => resolve(use())).then(release, reason => {
+    const rethrow = () => Promise.reject(reason)
+    return new Promise(resolve => resolve(onRejection())).then(rethrow, rethrow)
+  })
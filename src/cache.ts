@@ -0,0 +1,84 @@
+/**
+ * @file A keyed cache of asynchronous results, the building block of `memoize`, `cached` and `cachedBy` in `TaskOption`
+ * and `StateTaskEither`.
+ *
+ * Concurrent requests for the same key share a single in-flight promise. Expiration is measured with a `Clock` (see
+ * `getTestClock` to control it in tests); rejections are never cached.
+ */
+import { Lazy, Predicate } from 'fp-ts/lib/function'
+import { Clock, hrClock } from './Clock'
+
+/**
+ * @since 0.0.3
+ */
+export interface CacheOptions {
+  /** how long (in milliseconds, from the start of the computation) a result is kept, forever if missing */
+  readonly ttl?: number
+  /** the clock used to expire the results, `hrClock` if missing */
+  readonly clock?: Clock
+  /** whether failed results (e.g. `None` or `Left`) are kept too, `true` if missing */
+  readonly cacheFailures?: boolean
+}
+
+/**
+ * @since 0.0.3
+ */
+export interface Cache<K, A> {
+  /** returns the cached result for `k`, or runs `f` (and caches its result) if there isn't one */
+  readonly get: (k: K, f: Lazy<Promise<A>>) => Promise<A>
+}
+
+interface Entry<A> {
+  readonly result: Promise<A>
+  readonly expires: number
+}
+
+/**
+ * Returns an empty cache. `isFailure` tells which results are failures, see the `cacheFailures` option
+ *
+ * @example
+ * import { getCache } from 'fp-ts-contrib/lib/cache'
+ * import { getTestClock } from 'fp-ts-contrib/lib/Clock'
+ *
+ * const clock = getTestClock()
+ * const cache = getCache<string, number>({ ttl: 1000, clock }, () => false)
+ * let calls = 0
+ * const load = () => Promise.resolve(++calls)
+ *
+ * Promise.all([cache.get('a', load), cache.get('a', load)]).then(results => {
+ *   assert.deepStrictEqual(results, [1, 1])
+ *   clock.advance(1000).run()
+ *   return cache.get('a', load).then(result => assert.strictEqual(result, 2))
+ * })
+ *
+ * @since 0.0.3
+ */
+export const getCache = <K, A>(options: CacheOptions, isFailure: Predicate<A>): Cache<K, A> => {
+  const { ttl = Infinity, clock = hrClock, cacheFailures = true } = options
+  const entries = new Map<K, Entry<A>>()
+  const evict = (k: K, entry: Entry<A>): void => {
+    if (entries.get(k) === entry) {
+      entries.delete(k)
+    }
+  }
+  return {
+    get: (k, f) => {
+      const now = clock.now.run()
+      const cached = entries.get(k)
+      if (cached !== undefined && cached.expires > now) {
+        return cached.result
+      }
+      const entry: Entry<A> = { result: new Promise<A>(resolve => resolve(f())), expires: now + ttl }
+      entries.set(k, entry)
+      entry.result.then(
+        a => {
+          if (!cacheFailures && isFailure(a)) {
+            evict(k, entry)
+          }
+        },
+        () => evict(k, entry)
+      )
+      return entry.result
+    }
+  }
+}
@@ -0,0 +1,71 @@
+/**
+ * @file Cancellation of asynchronous computations with an `AbortSignal` (see `tryCatch` and `run` in `TaskOption` and
+ * `StateTaskEither`, and `batchTraverseM`).
+ *
+ * A cancellation is a value, not a rejection: `cancellable` and `StateTaskEither` resolve with a `Left(Cancelled)` (the
+ * error type of `StateTaskEither` becomes `L | Cancelled`), which can be told apart from the other errors with
+ * `isCancelled`, and `TaskOption.tryCatch` resolves with a `None`.
+ *
+ * `AbortController` (which creates the signals) is available in browsers and in Node.js >= 15.
+ */
+import { Either, left, right } from 'fp-ts/lib/Either'
+import { Lazy } from 'fp-ts/lib/function'
+
+/**
+ * The subset of the DOM (and Node.js) `AbortSignal` used by this library
+ *
+ * @since 0.0.3
+ */
+export interface AbortSignal {
+  readonly aborted: boolean
+  addEventListener(type: 'abort', listener: () => void): void
+  removeEventListener(type: 'abort', listener: () => void): void
+}
+
+/**
+ * The reason of a cancelled computation
+ *
+ * @since 0.0.3
+ */
+export class Cancelled {
+  readonly _tag: 'Cancelled' = 'Cancelled'
+}
+
+/**
+ * @since 0.0.3
+ */
+export const isCancelled = (u: unknown): u is Cancelled => u instanceof Cancelled
+
+/**
+ * Runs `f` unless `signal` is already aborted. The returned promise resolves with a `Left(Cancelled)` as soon as
+ * `signal` is aborted, or if `f` fails after `signal` is aborted (e.g. `fetch` rejecting with an `AbortError`). The
+ * other rejections of `f` are propagated
+ *
+ * @example
+ * import { AbortSignal, cancellable, isCancelled } from 'fp-ts-contrib/lib/cancel'
+ *
+ * const signal: AbortSignal = { aborted: true, addEventListener: () => {}, removeEventListener: () => {} }
+ *
+ * cancellable(() => Promise.resolve(1), signal).then(e => assert.ok(e.isLeft() && isCancelled(e.value)))
+ *
+ * @since 0.0.3
+ */
+export const cancellable = <A>(f: Lazy<Promise<A>>, signal: AbortSignal): Promise<Either<Cancelled, A>> => {
+  if (signal.aborted) {
+    return Promise.resolve(left(new Cancelled()))
+  }
+  let cancel!: () => void
+  const aborted = new Promise<Either<Cancelled, A>>(resolve => (cancel = () => resolve(left(new Cancelled()))))
+  signal.addEventListener('abort', cancel)
+  const result = new Promise<A>(resolve => resolve(f())).then<Either<Cancelled, A>, Either<Cancelled, A>>(
+    a => {
+      signal.removeEventListener('abort', cancel)
+      return right<Cancelled, A>(a)
+    },
+    e => {
+      signal.removeEventListener('abort', cancel)
+      return signal.aborted ? left<Cancelled, A>(new Cancelled()) : Promise.reject(e)
+    }
+  )
+  return Promise.race([aborted, result])
+}
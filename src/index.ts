@@ -0,0 +1,55 @@
+import * as ado from './Ado'
+import * as arrayOption from './ArrayOption'
+import * as batchTraverseM from './batchTraverseM'
+import * as bracket from './bracket'
+import * as cache from './cache'
+import * as cancel from './cancel'
+import * as clock from './Clock'
+import * as do_ from './Do'
+import * as eitherOption from './EitherOption'
+import * as lens from './Lens'
+import * as pipeable from './pipeable'
+import * as readerEither from './ReaderEither'
+import * as readerIO from './ReaderIO'
+import * as readerTaskEither from './ReaderTaskEither'
+import * as readerWriterStateTaskEither from './ReaderWriterStateTaskEither'
+import * as resource from './Resource'
+import * as retry from './retry'
+import * as stateIO from './StateIO'
+import * as stateTaskEither from './StateTaskEither'
+import * as taskOption from './TaskOption'
+import * as taskThese from './TaskThese'
+import * as taskValidation from './TaskValidation'
+import * as theseOption from './TheseOption'
+import * as time from './time'
+import * as timeout from './timeout'
+import * as traverseWithConcurrency from './traverseWithConcurrency'
+
+export {
+  ado,
+  arrayOption,
+  batchTraverseM,
+  bracket,
+  cache,
+  cancel,
+  clock,
+  do_,
+  eitherOption,
+  lens,
+  pipeable,
+  readerEither,
+  readerIO,
+  readerTaskEither,
+  readerWriterStateTaskEither,
+  resource,
+  retry,
+  stateIO,
+  stateTaskEither,
+  taskOption,
+  taskThese,
+  taskValidation,
+  theseOption,
+  time,
+  timeout,
+  traverseWithConcurrency
+}
@@ -0,0 +1,262 @@
+/**
+ * @file Composable retry policies, adapted from the Haskell `retry` package.
+ *
+ * A `RetryPolicy` is a function that, given the current `RetryStatus`, returns the delay (in milliseconds) before the
+ * next attempt, or `None` if the action should not be retried anymore.
+ */
+import { HKT, Type, Type2, Type3, URIS, URIS2, URIS3 } from 'fp-ts/lib/HKT'
+import { IO } from 'fp-ts/lib/IO'
+import { Monoid } from 'fp-ts/lib/Monoid'
+import { MonadTask, MonadTask1, MonadTask2, MonadTask2C, MonadTask3, MonadTask3C } from 'fp-ts/lib/MonadTask'
+import { Option, none, some } from 'fp-ts/lib/Option'
+import { random } from 'fp-ts/lib/Random'
+import { task } from 'fp-ts/lib/Task'
+import { TaskEither } from 'fp-ts/lib/TaskEither'
+import { Predicate, constTrue } from 'fp-ts/lib/function'
+import { Clock, hrClock } from './Clock'
+import { StateTaskEither } from './StateTaskEither'
+import { TaskOption } from './TaskOption'
+import { TaskValidation } from './TaskValidation'
+
+/**
+ * @since 0.0.3
+ */
+export interface RetryStatus {
+  /** iteration number, where `0` is the first try */
+  readonly iterNumber: number
+  /** delay incurred so far from retries */
+  readonly cumulativeDelay: number
+  /** latest attempt's delay, will always be `None` on first run */
+  readonly previousDelay: Option<number>
+}
+
+/**
+ * @since 0.0.3
+ */
+export type RetryPolicy = (status: RetryStatus) => Option<number>
+
+/**
+ * Initial, default retry status
+ *
+ * @since 0.0.3
+ */
+export const defaultRetryStatus: RetryStatus = {
+  iterNumber: 0,
+  cumulativeDelay: 0,
+  previousDelay: none
+}
+
+/**
+ * Applies a policy to a status to see what the next status would be
+ *
+ * @since 0.0.3
+ */
+export const applyPolicy = (policy: RetryPolicy, status: RetryStatus): RetryStatus => {
+  const delay = policy(status)
+  return {
+    iterNumber: status.iterNumber + 1,
+    cumulativeDelay: status.cumulativeDelay + delay.getOrElse(0),
+    previousDelay: delay
+  }
+}
+
+/**
+ * Combines two policies: the resulting policy retries as long as both policies do, using the larger delay
+ *
+ * @since 0.0.3
+ */
+export const monoidRetryPolicy: Monoid<RetryPolicy> = {
+  concat: (x, y) => status => x(status).chain(dx => y(status).map(dy => Math.max(dx, dy))),
+  empty: () => some(0)
+}
+
+/**
+ * Retries immediately, but only up to `n` times
+ *
+ * @since 0.0.3
+ */
+export const limitRetries = (n: number): RetryPolicy => status => (status.iterNumber >= n ? none : some(0))
+
+/**
+ * Retries forever, waiting a constant amount of time between attempts
+ *
+ * @since 0.0.3
+ */
+export const constantDelay = (delay: number): RetryPolicy => () => some(delay)
+
+/**
+ * Retries forever, the delay grows linearly: `delay`, `2 * delay`, `3 * delay`, ...
+ *
+ * @since 0.0.3
+ */
+export const linearBackoff = (delay: number): RetryPolicy => status => some(delay * (status.iterNumber + 1))
+
+/**
+ * Retries forever, the delay doubles at each attempt: `delay`, `2 * delay`, `4 * delay`, ...
+ *
+ * @since 0.0.3
+ */
+export const exponentialBackoff = (delay: number): RetryPolicy => status => some(delay * Math.pow(2, status.iterNumber))
+
+/**
+ * Sets an upper bound on the delay of the given policy
+ *
+ * @since 0.0.3
+ */
+export const capDelay = (maxDelay: number, policy: RetryPolicy): RetryPolicy => status =>
+  policy(status).map(delay => Math.min(maxDelay, delay))
+
+/**
+ * Randomizes the delays of the given policy between `0` and the original delay ("full jitter")
+ *
+ * @since 0.0.3
+ */
+export const jitter = (policy: RetryPolicy, rnd: IO<number> = random): RetryPolicy => status =>
+  policy(status).map(delay => Math.floor(delay * rnd.run()))
+
+/**
+ * Runs `action` and, as long as `check` holds for its result, runs it again according to `policy`. The delays are
+ * waited using `hrClock`.
+ *
+ * Note that only the results of `action` are inspected: failures which short circuit `chain` (e.g. a `Left`) are not
+ * retried, use the combinators specialized for a data type (like `retryingStateTaskEither`) or pass `action` the
+ * underlying `Task`.
+ *
+ * @example
+ * import { task } from 'fp-ts/lib/Task'
+ * import { retrying, limitRetries } from 'fp-ts-contrib/lib/retry'
+ *
+ * const result = retrying(task)(limitRetries(3), status => task.of(status.iterNumber), n => n < 2)
+ *
+ * result.run().then(n => assert.strictEqual(n, 2))
+ *
+ * @since 0.0.3
+ */
+export function retrying<M extends URIS3>(
+  M: MonadTask3<M>
+): <U, L, A>(
+  policy: RetryPolicy,
+  action: (status: RetryStatus) => Type3<M, U, L, A>,
+  check: Predicate<A>
+) => Type3<M, U, L, A>
+export function retrying<M extends URIS3, U, L>(
+  M: MonadTask3C<M, U, L>
+): <A>(
+  policy: RetryPolicy,
+  action: (status: RetryStatus) => Type3<M, U, L, A>,
+  check: Predicate<A>
+) => Type3<M, U, L, A>
+export function retrying<M extends URIS2>(
+  M: MonadTask2<M>
+): <L, A>(policy: RetryPolicy, action: (status: RetryStatus) => Type2<M, L, A>, check: Predicate<A>) => Type2<M, L, A>
+export function retrying<M extends URIS2, L>(
+  M: MonadTask2C<M, L>
+): <A>(policy: RetryPolicy, action: (status: RetryStatus) => Type2<M, L, A>, check: Predicate<A>) => Type2<M, L, A>
+export function retrying<M extends URIS>(
+  M: MonadTask1<M>
+): <A>(policy: RetryPolicy, action: (status: RetryStatus) => Type<M, A>, check: Predicate<A>) => Type<M, A>
+export function retrying<M>(
+  M: MonadTask<M>
+): <A>(policy: RetryPolicy, action: (status: RetryStatus) => HKT<M, A>, check: Predicate<A>) => HKT<M, A>
+export function retrying<M>(
+  M: MonadTask<M>
+): <A>(policy: RetryPolicy, action: (status: RetryStatus) => HKT<M, A>, check: Predicate<A>) => HKT<M, A> {
+  return retryingWith(hrClock)(M)
+}
+
+/**
+ * Like `retrying` but the delays are waited using the given `Clock`
+ *
+ * @since 0.0.3
+ */
+export function retryingWith(clock: Clock): typeof retrying {
+  return <M>(M: MonadTask<M>) => <A>(
+    policy: RetryPolicy,
+    action: (status: RetryStatus) => HKT<M, A>,
+    check: Predicate<A>
+  ) => {
+    const go = (status: RetryStatus): HKT<M, A> =>
+      M.chain(action(status), a => {
+        if (!check(a)) {
+          return M.of(a)
+        }
+        const next = applyPolicy(policy, status)
+        return next.previousDelay.foldL(() => M.of(a), delay => M.chain(M.fromTask(clock.sleep(delay)), () => go(next)))
+      })
+    return go(defaultRetryStatus)
+  }
+}
+
+/**
+ * Retries a `TaskOption` while it returns `None`
+ *
+ * @since 0.0.3
+ */
+export const retryingTaskOption = <A>(
+  policy: RetryPolicy,
+  action: (status: RetryStatus) => TaskOption<A>
+): TaskOption<A> => retryingTaskOptionWith(hrClock)(policy, action)
+
+/**
+ * Like `retryingTaskOption` but the delays are waited using the given `Clock`
+ *
+ * @since 0.0.3
+ */
+export function retryingTaskOptionWith(clock: Clock): typeof retryingTaskOption {
+  return (policy, action) =>
+    new TaskOption(retryingWith(clock)(task)(policy, status => action(status).value, a => a.isNone()))
+}
+
+/**
+ * Retries a `TaskValidation` while it fails with a failure satisfying `shouldRetry` (by default every failure)
+ *
+ * @since 0.0.3
+ */
+export const retryingTaskValidation = <L, A>(
+  policy: RetryPolicy,
+  action: (status: RetryStatus) => TaskValidation<L, A>,
+  shouldRetry?: Predicate<L>
+): TaskValidation<L, A> => retryingTaskValidationWith(hrClock)(policy, action, shouldRetry)
+
+/**
+ * Like `retryingTaskValidation` but the delays are waited using the given `Clock`
+ *
+ * @since 0.0.3
+ */
+export function retryingTaskValidationWith(clock: Clock): typeof retryingTaskValidation {
+  return (policy, action, shouldRetry = constTrue) =>
+    new TaskValidation(
+      retryingWith(clock)(task)(policy, status => action(status).value, v => v.fold(shouldRetry, () => false))
+    )
+}
+
+/**
+ * Retries a `StateTaskEither` while it fails with an error satisfying `shouldRetry` (by default every error). Every
+ * attempt starts from the initial state.
+ *
+ * @since 0.0.3
+ */
+export const retryingStateTaskEither = <S, L, A>(
+  policy: RetryPolicy,
+  action: (status: RetryStatus) => StateTaskEither<S, L, A>,
+  shouldRetry?: Predicate<L>
+): StateTaskEither<S, L, A> => retryingStateTaskEitherWith(hrClock)(policy, action, shouldRetry)
+
+/**
+ * Like `retryingStateTaskEither` but the delays are waited using the given `Clock`
+ *
+ * @since 0.0.3
+ */
+export function retryingStateTaskEitherWith(clock: Clock): typeof retryingStateTaskEither {
+  return (policy, action, shouldRetry = constTrue) =>
+    new StateTaskEither(
+      (s, signal) =>
+        new TaskEither(
+          retryingWith(clock)(task)(
+            policy,
+            status => action(status).value(s, signal).value,
+            e => e.fold(shouldRetry, () => false)
+          )
+        )
+    )
+}
@@ -1,11 +1,11 @@
-import { now } from 'fp-ts/lib/Date'
 import { tuple } from 'fp-ts/lib/function'
 import { HKT, Type, Type2, Type3, URIS, URIS2, URIS3 } from 'fp-ts/lib/HKT'
 import { MonadIO, MonadIO1, MonadIO2, MonadIO2C, MonadIO3, MonadIO3C } from 'fp-ts/lib/MonadIO'
+import { Clock, hrClock } from './Clock'
 
 /**
  * Mimics the analogous Unix command: given an action `HKT<M, A>`, we can derive an action `HKT<M, [A, number]>` that
- * returns the elapsed time along with the computed value
+ * returns the elapsed time (in milliseconds, measured with `hrClock`) along with the computed value
  *
  * @example
  * import { io } from 'fp-ts/lib/IO'
@@ -31,6 +31,26 @@ export function time<M extends URIS2, L>(M: MonadIO2C<M, L>): <A>(ma: Type2<M, L
 export function time<M extends URIS>(M: MonadIO1<M>): <A>(ma: Type<M, A>) => Type<M, [A, number]>
 export function time<M>(M: MonadIO<M>): <A>(ma: HKT<M, A>) => HKT<M, [A, number]>
 export function time<M>(M: MonadIO<M>): <A>(ma: HKT<M, A>) => HKT<M, [A, number]> {
-  const nowM = M.fromIO(now)
-  return ma => M.chain(nowM, start => M.chain(ma, a => M.map(nowM, end => tuple(a, end - start))))
+  return timeWith(hrClock)(M)
+}
+
+/**
+ * Like `time` but the elapsed time is measured with the given `Clock`
+ *
+ * @example
+ * import { io } from 'fp-ts/lib/IO'
+ * import { getTestClock } from 'fp-ts-contrib/lib/Clock'
+ * import { timeWith } from 'fp-ts-contrib/lib/time'
+ *
+ * const clock = getTestClock()
+ *
+ * assert.deepStrictEqual(timeWith(clock)(io)(clock.advance(10).map(() => 'done')).run(), ['done', 10])
+ *
+ * @since 0.0.3
+ */
+export function timeWith(clock: Clock): typeof time {
+  return <M>(M: MonadIO<M>) => {
+    const nowM = M.fromIO(clock.now)
+    return <A>(ma: HKT<M, A>) => M.chain(nowM, start => M.chain(ma, a => M.map(nowM, end => tuple(a, end - start))))
+  }
 }
@@ -0,0 +1,308 @@
+/**
+ * @file Combinators to put deadlines on, postpone and race `Task` based actions. `delay` works with any `MonadTask`,
+ * `timeout`, `race` and `raceFirstSuccess` need a `MonadRace`, i.e. a `MonadTask` that can run two actions in parallel
+ * (see `taskRace`, `taskEitherRace`, `taskOptionRace` and `stateTaskEitherRace`).
+ *
+ * Nothing is interrupted: the losers of a race keep running, their results are just ignored (only the timer of
+ * `timeout` is cleared).
+ */
+import { Either } from 'fp-ts/lib/Either'
+import { HKT, Type, Type2, Type3, URIS, URIS2, URIS3 } from 'fp-ts/lib/HKT'
+import { IO } from 'fp-ts/lib/IO'
+import { MonadTask, MonadTask1, MonadTask2, MonadTask3 } from 'fp-ts/lib/MonadTask'
+import { Option } from 'fp-ts/lib/Option'
+import { Task, URI as TaskURI, fromIO as taskFromIO, task } from 'fp-ts/lib/Task'
+import { TaskEither, URI as TaskEitherURI, taskEither } from 'fp-ts/lib/TaskEither'
+import { Predicate, constFalse } from 'fp-ts/lib/function'
+import { AbortSignal } from './cancel'
+import { Clock, hrClock } from './Clock'
+import { StateTaskEither, URI as StateTaskEitherURI, stateTaskEither } from './StateTaskEither'
+import { TaskOption, URI as TaskOptionURI, taskOption } from './TaskOption'
+
+/**
+ * A `MonadTask` that can run two actions in parallel
+ *
+ * @since 0.0.3
+ */
+export interface MonadRace<M> extends MonadTask<M> {
+  /** returns the result of the first action that completes, successfully or not */
+  readonly race: <A>(x: HKT<M, A>, y: HKT<M, A>) => HKT<M, A>
+  /** returns the result of the first action that succeeds, or the failure of the last one that completes */
+  readonly raceFirstSuccess: <A>(x: HKT<M, A>, y: HKT<M, A>) => HKT<M, A>
+  /** runs `finalizer` once `ma` completes, successfully or not (even if it rejects) */
+  readonly ensuring: <A>(ma: HKT<M, A>, finalizer: IO<void>) => HKT<M, A>
+}
+
+/**
+ * @since 0.0.3
+ */
+export interface MonadRace1<M extends URIS> extends MonadTask1<M> {
+  readonly race: <A>(x: Type<M, A>, y: Type<M, A>) => Type<M, A>
+  readonly raceFirstSuccess: <A>(x: Type<M, A>, y: Type<M, A>) => Type<M, A>
+  readonly ensuring: <A>(ma: Type<M, A>, finalizer: IO<void>) => Type<M, A>
+}
+
+/**
+ * @since 0.0.3
+ */
+export interface MonadRace2<M extends URIS2> extends MonadTask2<M> {
+  readonly race: <L, A>(x: Type2<M, L, A>, y: Type2<M, L, A>) => Type2<M, L, A>
+  readonly raceFirstSuccess: <L, A>(x: Type2<M, L, A>, y: Type2<M, L, A>) => Type2<M, L, A>
+  readonly ensuring: <L, A>(ma: Type2<M, L, A>, finalizer: IO<void>) => Type2<M, L, A>
+}
+
+/**
+ * @since 0.0.3
+ */
+export interface MonadRace3<M extends URIS3> extends MonadTask3<M> {
+  readonly race: <U, L, A>(x: Type3<M, U, L, A>, y: Type3<M, U, L, A>) => Type3<M, U, L, A>
+  readonly raceFirstSuccess: <U, L, A>(x: Type3<M, U, L, A>, y: Type3<M, U, L, A>) => Type3<M, U, L, A>
+  readonly ensuring: <U, L, A>(ma: Type3<M, U, L, A>, finalizer: IO<void>) => Type3<M, U, L, A>
+}
+
+// resolves with the first result that is not a failure, or with the last one. When `waitOnRejection` is `true`, a
+// rejection is a failure too, otherwise it settles the race
+const raceWith = <A>(isFailure: Predicate<A>, waitOnRejection: boolean) => <B extends A>(
+  x: Promise<B>,
+  y: Promise<B>
+): Promise<B> =>
+  new Promise((resolve, reject) => {
+    let pending = 2
+    const onResult = (b: B): void => {
+      pending--
+      if (!isFailure(b) || pending === 0) {
+        resolve(b)
+      }
+    }
+    const onRejection = (reason: unknown): void => {
+      pending--
+      if (!waitOnRejection || pending === 0) {
+        reject(reason)
+      }
+    }
+    x.then(onResult, onRejection)
+    y.then(onResult, onRejection)
+  })
+
+const first = raceWith<unknown>(constFalse, false)
+
+const firstResolved = raceWith<unknown>(constFalse, true)
+
+const firstRight = raceWith((e: Either<unknown, unknown>) => e.isLeft(), true)
+
+const firstSome = raceWith((o: Option<unknown>) => o.isNone(), true)
+
+const ensuringPromise = <A>(ma: Promise<A>, finalizer: IO<void>): Promise<A> =>
+  ma.then(
+    a => {
+      finalizer.run()
+      return a
+    },
+    reason => {
+      finalizer.run()
+      return Promise.reject(reason)
+    }
+  )
+
+/**
+ * @since 0.0.3
+ */
+export const taskRace: MonadRace1<TaskURI> = {
+  ...task,
+  race: (x, y) => new Task(() => first(x.run(), y.run())),
+  raceFirstSuccess: (x, y) => new Task(() => firstResolved(x.run(), y.run())),
+  ensuring: (ma, finalizer) => new Task(() => ensuringPromise(ma.run(), finalizer))
+}
+
+/**
+ * @since 0.0.3
+ */
+export const taskEitherRace: MonadRace2<TaskEitherURI> = {
+  ...taskEither,
+  race: (x, y) => new TaskEither(new Task(() => first(x.run(), y.run()))),
+  raceFirstSuccess: (x, y) => new TaskEither(new Task(() => firstRight(x.run(), y.run()))),
+  ensuring: (ma, finalizer) => new TaskEither(new Task(() => ensuringPromise(ma.run(), finalizer)))
+}
+
+/**
+ * @since 0.0.3
+ */
+export const taskOptionRace: MonadRace1<TaskOptionURI> = {
+  ...taskOption,
+  race: (x, y) => new TaskOption(new Task(() => first(x.run(), y.run()))),
+  raceFirstSuccess: (x, y) => new TaskOption(new Task(() => firstSome(x.run(), y.run()))),
+  ensuring: (ma, finalizer) => new TaskOption(new Task(() => ensuringPromise(ma.run(), finalizer)))
+}
+
+/**
+ * Both actions are run against the initial state, the resulting state is the one returned by the winner (the states
+ * computed by the other action are discarded)
+ *
+ * @since 0.0.3
+ */
+export const stateTaskEitherRace: MonadRace3<StateTaskEitherURI> = {
+  ...stateTaskEither,
+  race: (x, y) =>
+    new StateTaskEither(
+      (s, signal) => new TaskEither(new Task(() => first(x.value(s, signal).run(), y.value(s, signal).run())))
+    ),
+  raceFirstSuccess: (x, y) =>
+    new StateTaskEither(
+      (s, signal) => new TaskEither(new Task(() => firstRight(x.value(s, signal).run(), y.value(s, signal).run())))
+    ),
+  ensuring: (ma, finalizer) =>
+    new StateTaskEither(
+      (s, signal) => new TaskEither(new Task(() => ensuringPromise(ma.value(s, signal).run(), finalizer)))
+    )
+}
+
+// a minimal `AbortController` (the global one is missing in Node.js < 15)
+const getAbortController = (): { readonly signal: AbortSignal; readonly abort: IO<void> } => {
+  let listeners: Array<() => void> = []
+  const signal = {
+    aborted: false,
+    addEventListener: (_: 'abort', listener: () => void) => {
+      listeners.push(listener)
+    },
+    removeEventListener: (_: 'abort', listener: () => void) => {
+      listeners = listeners.filter(l => l !== listener)
+    }
+  }
+  const abort = new IO(() => {
+    signal.aborted = true
+    listeners.forEach(listener => listener())
+  })
+  return { signal, abort }
+}
+
+/**
+ * Returns an action that waits `ms` milliseconds (measured with `hrClock`) before running `ma`
+ *
+ * @example
+ * import { task } from 'fp-ts/lib/Task'
+ * import { delay } from 'fp-ts-contrib/lib/timeout'
+ *
+ * delay(task)(10)(task.of(1))
+ *   .run()
+ *   .then(n => assert.strictEqual(n, 1))
+ *
+ * @since 0.0.3
+ */
+export function delay<M extends URIS3>(
+  M: MonadTask3<M>
+): (ms: number) => <U, L, A>(ma: Type3<M, U, L, A>) => Type3<M, U, L, A>
+export function delay<M extends URIS2>(M: MonadTask2<M>): (ms: number) => <L, A>(ma: Type2<M, L, A>) => Type2<M, L, A>
+export function delay<M extends URIS>(M: MonadTask1<M>): (ms: number) => <A>(ma: Type<M, A>) => Type<M, A>
+export function delay<M>(M: MonadTask<M>): (ms: number) => <A>(ma: HKT<M, A>) => HKT<M, A>
+export function delay<M>(M: MonadTask<M>): (ms: number) => <A>(ma: HKT<M, A>) => HKT<M, A> {
+  return delayWith(hrClock)(M)
+}
+
+/**
+ * Like `delay` but the time is waited with the given `Clock`
+ *
+ * @example
+ * import { task } from 'fp-ts/lib/Task'
+ * import { getTestClock } from 'fp-ts-contrib/lib/Clock'
+ * import { delayWith } from 'fp-ts-contrib/lib/timeout'
+ *
+ * const clock = getTestClock()
+ *
+ * delayWith(clock)(task)(1000)(task.of(1))
+ *   .run()
+ *   .then(n => {
+ *     assert.strictEqual(n, 1)
+ *     assert.strictEqual(clock.now.run(), 1000)
+ *   })
+ *
+ * @since 0.0.3
+ */
+export function delayWith(clock: Clock): typeof delay {
+  return <M>(M: MonadTask<M>) => (ms: number) => <A>(ma: HKT<M, A>) => M.chain(M.fromTask(clock.sleep(ms)), () => ma)
+}
+
+/**
+ * Returns an action that runs `onTimeout` (e.g. a `None` or a `Left`) if `ma` doesn't complete within `ms`
+ * milliseconds (measured with `hrClock`). Note that `ma` is not interrupted, its result is just ignored. The timer is
+ * cleared as soon as the race settles.
+ *
+ * @example
+ * import { left } from 'fp-ts/lib/Either'
+ * import { fromLeft, taskEither } from 'fp-ts/lib/TaskEither'
+ * import { delay, taskEitherRace, timeout } from 'fp-ts-contrib/lib/timeout'
+ *
+ * const slow = delay(taskEither)(100)(taskEither.of<string, number>(1))
+ *
+ * timeout(taskEitherRace)(10)(slow, fromLeft('timeout'))
+ *   .run()
+ *   .then(e => assert.deepStrictEqual(e, left('timeout')))
+ *
+ * @since 0.0.3
+ */
+export function timeout<M extends URIS3>(
+  M: MonadRace3<M>
+): (ms: number) => <U, L, A>(ma: Type3<M, U, L, A>, onTimeout: Type3<M, U, L, A>) => Type3<M, U, L, A>
+export function timeout<M extends URIS2>(
+  M: MonadRace2<M>
+): (ms: number) => <L, A>(ma: Type2<M, L, A>, onTimeout: Type2<M, L, A>) => Type2<M, L, A>
+export function timeout<M extends URIS>(
+  M: MonadRace1<M>
+): (ms: number) => <A>(ma: Type<M, A>, onTimeout: Type<M, A>) => Type<M, A>
+export function timeout<M>(M: MonadRace<M>): (ms: number) => <A>(ma: HKT<M, A>, onTimeout: HKT<M, A>) => HKT<M, A>
+export function timeout<M>(M: MonadRace<M>): (ms: number) => <A>(ma: HKT<M, A>, onTimeout: HKT<M, A>) => HKT<M, A> {
+  return timeoutWith(hrClock)(M)
+}
+
+/**
+ * Like `timeout` but the time is measured with the given `Clock`
+ *
+ * @since 0.0.3
+ */
+export function timeoutWith(clock: Clock): typeof timeout {
+  return <M>(M: MonadRace<M>) => (ms: number) => <A>(ma: HKT<M, A>, onTimeout: HKT<M, A>) =>
+    M.chain(M.fromTask(taskFromIO(new IO(getAbortController))), controller =>
+      M.ensuring(M.race(ma, M.chain(M.fromTask(clock.sleep(ms, controller.signal)), () => onTimeout)), controller.abort)
+    )
+}
+
+/**
+ * Runs both actions in parallel and returns the result of the first one that completes, successfully or not
+ *
+ * @since 0.0.3
+ */
+export function race<M extends URIS3>(
+  M: MonadRace3<M>
+): <U, L, A>(x: Type3<M, U, L, A>, y: Type3<M, U, L, A>) => Type3<M, U, L, A>
+export function race<M extends URIS2>(M: MonadRace2<M>): <L, A>(x: Type2<M, L, A>, y: Type2<M, L, A>) => Type2<M, L, A>
+export function race<M extends URIS>(M: MonadRace1<M>): <A>(x: Type<M, A>, y: Type<M, A>) => Type<M, A>
+export function race<M>(M: MonadRace<M>): <A>(x: HKT<M, A>, y: HKT<M, A>) => HKT<M, A>
+export function race<M>(M: MonadRace<M>): <A>(x: HKT<M, A>, y: HKT<M, A>) => HKT<M, A> {
+  return M.race
+}
+
+/**
+ * Runs both actions in parallel and returns the result of the first one that succeeds (i.e. doesn't return a `Left` or
+ * a `None`). If both actions fail, returns the failure of the last one that completes.
+ *
+ * @example
+ * import { delay, raceFirstSuccess, taskOptionRace } from 'fp-ts-contrib/lib/timeout'
+ * import { none, some, taskOption } from 'fp-ts-contrib/lib/TaskOption'
+ * import { some as optionSome } from 'fp-ts/lib/Option'
+ *
+ * raceFirstSuccess(taskOptionRace)(none, delay(taskOption)(10)(some(1)))
+ *   .run()
+ *   .then(o => assert.deepStrictEqual(o, optionSome(1)))
+ *
+ * @since 0.0.3
+ */
+export function raceFirstSuccess<M extends URIS3>(
+  M: MonadRace3<M>
+): <U, L, A>(x: Type3<M, U, L, A>, y: Type3<M, U, L, A>) => Type3<M, U, L, A>
+export function raceFirstSuccess<M extends URIS2>(
+  M: MonadRace2<M>
+): <L, A>(x: Type2<M, L, A>, y: Type2<M, L, A>) => Type2<M, L, A>
+export function raceFirstSuccess<M extends URIS>(M: MonadRace1<M>): <A>(x: Type<M, A>, y: Type<M, A>) => Type<M, A>
+export function raceFirstSuccess<M>(M: MonadRace<M>): <A>(x: HKT<M, A>, y: HKT<M, A>) => HKT<M, A>
+export function raceFirstSuccess<M>(M: MonadRace<M>): <A>(x: HKT<M, A>, y: HKT<M, A>) => HKT<M, A> {
+  return M.raceFirstSuccess
+}
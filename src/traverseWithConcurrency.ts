@@ -0,0 +1,127 @@
+import { Alternative } from 'fp-ts/lib/Alternative'
+import { Bifunctor, Bifunctor2, Bifunctor3 } from 'fp-ts/lib/Bifunctor'
+import { HKT, HKT2, Type, Type2, Type3, URIS, URIS2, URIS3 } from 'fp-ts/lib/HKT'
+import { IO } from 'fp-ts/lib/IO'
+import { MonadTask, MonadTask1, MonadTask2, MonadTask3 } from 'fp-ts/lib/MonadTask'
+import { Task } from 'fp-ts/lib/Task'
+import { constVoid, identity } from 'fp-ts/lib/function'
+
+interface Semaphore {
+  readonly acquire: Task<void>
+  readonly release: IO<void>
+}
+
+const getSemaphore = (n: number): Semaphore => {
+  let available = n
+  const waiting: Array<() => void> = []
+  return {
+    acquire: new Task(() => {
+      if (available > 0) {
+        available--
+        return Promise.resolve()
+      }
+      return new Promise<void>(resolve => waiting.push(resolve))
+    }),
+    release: new IO(() => {
+      const next = waiting.shift()
+      if (next !== undefined) {
+        next()
+      } else {
+        available++
+      }
+    })
+  }
+}
+
+const isBifunctor = <M>(M: MonadTask<M>): M is MonadTask<M> & Bifunctor<M> => 'bimap' in M
+
+const isAlternative = <M>(M: MonadTask<M>): M is MonadTask<M> & Alternative<M> => 'zero' in M
+
+/**
+ * Like `array.traverse` but at most `n` actions (at least 1) are in flight at any time: as soon as an action completes
+ * the next one is started. The results are returned in input order.
+ *
+ * Actions run concurrently only if the `ap` of `M` runs its arguments in parallel, as with `Task`, `TaskEither` and
+ * `TaskOption`. `StateTaskEither` threads the state from one action to the next, so its actions run one at a time.
+ *
+ * When `failFast` is `true`, no new action is started after the first failure (a `Left` or a `None`). In any case the
+ * in flight actions are awaited and the first failure (in input order) is returned.
+ *
+ * @example
+ * import { task } from 'fp-ts/lib/Task'
+ * import { traverseWithConcurrency } from 'fp-ts-contrib/lib/traverseWithConcurrency'
+ *
+ * traverseWithConcurrency(task)(2)([1, 2, 3], a => task.of(a * 2))
+ *   .run()
+ *   .then(bs => assert.deepStrictEqual(bs, [2, 4, 6]))
+ *
+ * @since 0.0.3
+ */
+export function traverseWithConcurrency<M extends URIS3>(
+  M: MonadTask3<M> & Bifunctor3<M>
+): (
+  n: number,
+  failFast?: boolean
+) => <U, L, A, B>(as: Array<A>, f: (a: A) => Type3<M, U, L, B>) => Type3<M, U, L, Array<B>>
+export function traverseWithConcurrency<M extends URIS2>(
+  M: MonadTask2<M> & Bifunctor2<M>
+): (n: number, failFast?: boolean) => <L, A, B>(as: Array<A>, f: (a: A) => Type2<M, L, B>) => Type2<M, L, Array<B>>
+export function traverseWithConcurrency<M extends URIS>(
+  M: MonadTask1<M>
+): (n: number, failFast?: boolean) => <A, B>(as: Array<A>, f: (a: A) => Type<M, B>) => Type<M, Array<B>>
+export function traverseWithConcurrency<M>(
+  M: MonadTask<M>
+): (n: number, failFast?: boolean) => <A, B>(as: Array<A>, f: (a: A) => HKT<M, B>) => HKT<M, Array<B>>
+export function traverseWithConcurrency<M>(
+  M: MonadTask<M>
+): (n: number, failFast?: boolean) => <A, B>(as: Array<A>, f: (a: A) => HKT<M, B>) => HKT<M, Array<B>> {
+  // like `array.sequence` but the `ap`s are nested as a balanced tree, which keeps the stack shallow
+  const sequence = (mas: Array<HKT<M, void>>): HKT<M, void> => {
+    if (mas.length <= 1) {
+      return mas.length === 0 ? M.of(undefined) : mas[0]
+    }
+    const middle = Math.floor(mas.length / 2)
+    return M.ap(M.map(sequence(mas.slice(0, middle)), () => constVoid), sequence(mas.slice(middle)))
+  }
+  // runs `onFailure` when `fb` fails (a `Left` or a `zero`), without recovering
+  const tapFailure = <B>(fb: HKT<M, B>, onFailure: IO<void>): HKT<M, B> => {
+    if (isBifunctor(M)) {
+      const onLeft = (l: unknown): unknown => {
+        onFailure.run()
+        return l
+      }
+      return M.bimap(fb as HKT2<M, unknown, B>, onLeft, identity)
+    }
+    if (isAlternative(M)) {
+      return M.alt(
+        fb,
+        M.chain(M.of(undefined), () => {
+          onFailure.run()
+          return M.zero<B>()
+        })
+      )
+    }
+    return fb
+  }
+  return (n, failFast = false) => <A, B>(as: Array<A>, f: (a: A) => HKT<M, B>) => {
+    const semaphore = getSemaphore(n >= 1 ? Math.floor(n) : 1)
+    const bs: Array<B> = []
+    let failed = false
+    const fail = new IO(() => {
+      failed = true
+      semaphore.release.run()
+    })
+    const step = (a: A, i: number): HKT<M, void> =>
+      M.chain(M.fromTask(semaphore.acquire), () => {
+        if (failFast && failed) {
+          semaphore.release.run()
+          return M.of(undefined)
+        }
+        return M.map(tapFailure(f(a), fail), b => {
+          bs[i] = b
+          semaphore.release.run()
+        })
+      })
+    return M.map(sequence(as.map(step)), () => bs)
+  }
+}
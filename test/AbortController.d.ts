@@ -0,0 +1,5 @@
+// `AbortController` is a global in browsers, in Node.js >= 15 and in the jsdom environment of the tests
+declare class AbortController {
+  readonly signal: import('../src/cancel').AbortSignal
+  abort(): void
+}
@@ -0,0 +1,69 @@
+import * as assert from 'assert'
+import { option, some, none } from 'fp-ts/lib/Option'
+import { Ado } from '../src/Ado'
+import { Task, task } from 'fp-ts/lib/Task'
+import { getApplicative, success, failure } from 'fp-ts/lib/Validation'
+import { getSemigroup, NonEmptyArray } from 'fp-ts/lib/NonEmptyArray'
+
+describe('Ado', () => {
+  it('should compose options', () => {
+    const user = Ado(option)
+      .do(some('nothing'))
+      .bind('name', some('bob'))
+      .let('email', 'bsmith@example.com')
+      .sequenceS({ len: some(3) })
+      .return(({ name, email, len }) => ({ name, email, len }))
+    assert.deepStrictEqual(user, some({ name: 'bob', email: 'bsmith@example.com', len: 3 }))
+
+    const user2 = Ado(option)
+      .bind('name', some('bob'))
+      .bind('len', none)
+      .done()
+    assert.deepStrictEqual(user2, none)
+  })
+
+  it('should run all the tasks', () => {
+    const log: Array<string> = []
+    const wait = <A>(ms: number, a: A): Task<A> =>
+      new Task(
+        () =>
+          new Promise(res => {
+            log.push(`start ${a}`)
+            setTimeout(() => {
+              log.push(`end ${a}`)
+              res(a)
+            }, ms)
+          })
+      )
+
+    const user = Ado(task)
+      .bind('name', wait(10, 'bob'))
+      .bind('email', wait(1, 'bsmith@example.com'))
+      .done()
+
+    return user.run().then(u => {
+      assert.deepStrictEqual(u, { name: 'bob', email: 'bsmith@example.com' })
+      assert.deepStrictEqual(log, ['start bob', 'start bsmith@example.com', 'end bsmith@example.com', 'end bob'])
+    })
+  })
+
+  it('should accumulate validation failures', () => {
+    const validationApplicative = getApplicative(getSemigroup<string>())
+    const neOf = <A>(a: A): NonEmptyArray<A> => new NonEmptyArray(a, [])
+
+    const user = Ado(validationApplicative)
+      .do(success('nothing'))
+      .bind('name', success('bob'))
+      .bind('email', success('bsmith@example.com'))
+      .return(({ name, email }) => ({ name, email }))
+    assert.deepStrictEqual(user, success({ name: 'bob', email: 'bsmith@example.com' }))
+
+    const user2 = Ado(validationApplicative)
+      .do(failure(neOf('error from do')))
+      .bind('name', success('bob'))
+      .bind('email', failure(neOf('error from email')))
+      .sequenceS({ len: failure(neOf('error from len')) })
+      .return(({ name, email, len }) => ({ name, email, len }))
+    assert.deepStrictEqual(user2, failure(new NonEmptyArray('error from do', ['error from email', 'error from len'])))
+  })
+})
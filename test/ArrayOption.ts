@@ -0,0 +1,200 @@
+import * as assert from 'assert'
+import { left, right } from 'fp-ts/lib/Either'
+import { monoidString } from 'fp-ts/lib/Monoid'
+import { none, option, some } from 'fp-ts/lib/Option'
+import { task } from 'fp-ts/lib/Task'
+import { pipe } from '../src/pipeable'
+import * as _ from '../src/ArrayOption'
+
+describe('ArrayOption', () => {
+  const sparse = new _.ArrayOption([some(1), none, some(3)])
+
+  it('map', () => {
+    assert.deepStrictEqual(_.arrayOption.map(sparse, n => n * 2).value, [some(2), none, some(6)])
+  })
+
+  it('ap', () => {
+    const double = (n: number) => n * 2
+    assert.deepStrictEqual(_.arrayOption.ap(_.some(double), sparse).value, [some(2), none, some(6)])
+    assert.deepStrictEqual(_.some(double).ap_(_.some(1)).value, [some(2)])
+  })
+
+  it('chain', () => {
+    const f = (n: number) => _.fromArray([n, n * 10])
+    assert.deepStrictEqual(_.arrayOption.chain(sparse, f).value, [some(1), some(10), none, some(3), some(30)])
+  })
+
+  it('fold', () => {
+    assert.deepStrictEqual(sparse.fold('none', n => `some(${n})`), ['some(1)', 'none', 'some(3)'])
+  })
+
+  it('getOrElse', () => {
+    assert.deepStrictEqual(sparse.getOrElse(0), [1, 0, 3])
+  })
+
+  it('somes', () => {
+    assert.deepStrictEqual(sparse.somes(), [1, 3])
+  })
+
+  it('alt', () => {
+    assert.deepStrictEqual(_.arrayOption.alt(sparse, _.some(4)).value, [some(1), none, some(3), some(4)])
+  })
+
+  it('zero', () => {
+    assert.deepStrictEqual(_.arrayOption.zero().value, [])
+  })
+
+  it('compact', () => {
+    const fa = new _.ArrayOption([some(some(1)), some(none), none])
+    assert.deepStrictEqual(_.arrayOption.compact(fa).value, [some(1), none, none])
+  })
+
+  it('separate', () => {
+    const { left: l, right: r } = _.arrayOption.separate(
+      new _.ArrayOption([some(left<string, number>('a')), some(right<string, number>(1)), none])
+    )
+    assert.deepStrictEqual(l.value, [some('a'), none, none])
+    assert.deepStrictEqual(r.value, [none, some(1), none])
+  })
+
+  it('partitionMap', () => {
+    const f = (n: number) => (n > 1 ? right<string, number>(n) : left<string, number>('small'))
+    const { left: l, right: r } = _.arrayOption.partitionMap(sparse, f)
+    assert.deepStrictEqual(l.value, [some('small'), none, none])
+    assert.deepStrictEqual(r.value, [none, none, some(3)])
+  })
+
+  it('partition', () => {
+    const { left: l, right: r } = _.arrayOption.partition(sparse, n => n > 1)
+    assert.deepStrictEqual(l.value, [some(1), none, none])
+    assert.deepStrictEqual(r.value, [none, none, some(3)])
+  })
+
+  it('filterMap', () => {
+    const f = (n: number) => (n > 1 ? some(n * 2) : none)
+    assert.deepStrictEqual(_.arrayOption.filterMap(sparse, f).value, [none, none, some(6)])
+  })
+
+  it('filter', () => {
+    assert.deepStrictEqual(_.arrayOption.filter(sparse, n => n > 1).value, [none, none, some(3)])
+  })
+
+  it('reduce', () => {
+    assert.strictEqual(_.arrayOption.reduce(sparse, '', (b, n) => b + n), '13')
+  })
+
+  it('foldMap', () => {
+    assert.strictEqual(_.arrayOption.foldMap(monoidString)(sparse, String), '13')
+  })
+
+  it('foldr', () => {
+    assert.strictEqual(_.arrayOption.foldr(sparse, '', (n, b) => b + n), '31')
+  })
+
+  it('traverse', async () => {
+    const actual = await _.arrayOption
+      .traverse(task)(sparse, n => task.of(n * 2))
+      .run()
+    assert.deepStrictEqual(actual.value, [some(2), none, some(6)])
+  })
+
+  it('sequence', () => {
+    const sequence = _.arrayOption.sequence(option)
+    assert.deepStrictEqual(
+      sequence(new _.ArrayOption([some(some(1)), none])).map(fa => fa.value),
+      some([some(1), none])
+    )
+    assert.deepStrictEqual(sequence(new _.ArrayOption([some(some(1)), some(none)])), none)
+  })
+
+  it('fromOption', () => {
+    assert.deepStrictEqual(_.fromOption(some(1)).value, [some(1)])
+    assert.deepStrictEqual(_.none.value, [none])
+  })
+
+  it('fromNullables', () => {
+    assert.deepStrictEqual(_.fromNullables([1, null, 3, undefined]).value, [some(1), none, some(3), none])
+  })
+
+  it('pipeables', () => {
+    const double = (n: number) => n * 2
+    const large = (n: number) => n > 1
+    assert.deepStrictEqual(
+      pipe(
+        sparse,
+        _.map(double),
+        _.chain(n => _.some(n + 1)),
+        _.getOrElse(0)
+      ),
+      [3, 0, 7]
+    )
+    assert.deepStrictEqual(_.ap(sparse)(_.some(double)).value, [some(2), none, some(6)])
+    assert.deepStrictEqual(_.flatten(_.some(sparse)).value, sparse.value)
+    assert.deepStrictEqual(
+      pipe(
+        sparse,
+        _.alt(_.some(4))
+      ).value,
+      [some(1), none, some(3), some(4)]
+    )
+    assert.deepStrictEqual(
+      pipe(
+        sparse,
+        _.fold('none', String)
+      ),
+      ['1', 'none', '3']
+    )
+    assert.deepStrictEqual(_.compact(_.some(some(1))).value, [some(1)])
+    assert.deepStrictEqual(_.separate(_.some(right<string, number>(1))).right.value, [some(1)])
+    assert.deepStrictEqual(
+      pipe(
+        sparse,
+        _.filter(large)
+      ).value,
+      [none, none, some(3)]
+    )
+    assert.deepStrictEqual(
+      pipe(
+        sparse,
+        _.filterMap(n => (large(n) ? some(n) : none))
+      ).value,
+      [none, none, some(3)]
+    )
+    assert.deepStrictEqual(
+      pipe(
+        sparse,
+        _.partition(large)
+      ).right.value,
+      [none, none, some(3)]
+    )
+    const f = (n: number) => (large(n) ? right<string, number>(n) : left<string, number>('small'))
+    assert.deepStrictEqual(
+      pipe(
+        sparse,
+        _.partitionMap(f)
+      ).left.value,
+      [some('small'), none, none]
+    )
+    assert.strictEqual(
+      pipe(
+        sparse,
+        _.reduce('', (b, n) => b + n)
+      ),
+      '13'
+    )
+    assert.strictEqual(
+      pipe(
+        sparse,
+        _.foldMap(monoidString)(String)
+      ),
+      '13'
+    )
+    assert.strictEqual(
+      pipe(
+        sparse,
+        _.foldr('', (n, b) => b + n)
+      ),
+      '31'
+    )
+  })
+})
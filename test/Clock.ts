@@ -0,0 +1,132 @@
+/**
+ * @jest-environment node
+ */
+import * as assert from 'assert'
+import { AbortSignal } from '../src/cancel'
+import { Clock, getHrClock, getTestClock, hrClock } from '../src/Clock'
+
+// the tests run in the node environment, where `AbortController` is missing before Node.js 15
+const getAbortController = () => {
+  const listeners: Array<() => void> = []
+  const signal = {
+    aborted: false,
+    addEventListener: (_: 'abort', listener: () => void) => {
+      listeners.push(listener)
+    },
+    removeEventListener: (_: 'abort', listener: () => void) => {
+      listeners.splice(listeners.indexOf(listener), 1)
+    }
+  }
+  const abort = () => {
+    signal.aborted = true
+    listeners.forEach(listener => listener())
+  }
+  return { signal, abort }
+}
+
+describe('Clock', () => {
+  describe('getHrClock', () => {
+    it('should read hrtime', () => {
+      const clock = getHrClock({ hrtime: () => [2, 1500000], performance: { now: () => 42 } })
+      assert.strictEqual(clock.now.run(), 2001.5)
+    })
+
+    it('should fall back to performance and Date.now', () => {
+      assert.strictEqual(getHrClock({ performance: { now: () => 42 } }).now.run(), 42)
+      const before = Date.now()
+      assert.ok(getHrClock({}).now.run() >= before)
+    })
+
+    it('should sleep', async () => {
+      const start = Date.now()
+      await getHrClock({})
+        .sleep(10)
+        .run()
+      assert.ok(Date.now() - start >= 5)
+    })
+
+    it('should clear the timer when the signal is aborted', async () => {
+      const clock = getHrClock({})
+      const controller = getAbortController()
+      const log: Array<string> = []
+      const sleep = (name: string, ms: number, signal?: AbortSignal) =>
+        clock
+          .sleep(ms, signal)
+          .run()
+          .then(() => log.push(name))
+      await sleep('not aborted', 1, controller.signal)
+      sleep('aborted', 5, controller.signal)
+      controller.abort()
+      sleep('already aborted', 1, controller.signal)
+      await sleep('end', 20)
+      assert.deepStrictEqual(log, ['not aborted', 'end'])
+    })
+  })
+
+  describe('hrClock', () => {
+    it('should be monotonic', () => {
+      const start = hrClock.now.run()
+      const end = hrClock.now.run()
+      assert.ok(end >= start)
+    })
+
+    // loads a new instance of the module with the given platform globals
+    const loadHrClock = (globals: { process: unknown; performance: unknown }): Clock => {
+      const g: any = global
+      const saved = { process: g.process, performance: g.performance }
+      Object.assign(g, globals)
+      try {
+        jest.resetModules()
+        return require('../src/Clock').hrClock
+      } finally {
+        Object.assign(g, saved)
+      }
+    }
+
+    it('should read process.hrtime', () => {
+      const clock = loadHrClock({ process: { hrtime: () => [1, 500000] }, performance: { now: () => 42 } })
+      assert.strictEqual(clock.now.run(), 1000.5)
+    })
+
+    it('should read performance when process is missing', () => {
+      const clock = loadHrClock({ process: undefined, performance: { now: () => 42 } })
+      assert.strictEqual(clock.now.run(), 42)
+    })
+
+    it('should fall back to Date.now', () => {
+      const before = Date.now()
+      assert.ok(loadHrClock({ process: undefined, performance: undefined }).now.run() >= before)
+    })
+  })
+
+  describe('getTestClock', () => {
+    it('should only move when advanced', () => {
+      const clock = getTestClock()
+      assert.strictEqual(clock.now.run(), 0)
+      clock.advance(10).run()
+      clock.advance(5).run()
+      assert.strictEqual(clock.now.run(), 15)
+    })
+
+    it('should advance when sleeping', async () => {
+      const clock = getTestClock(100)
+      await clock.sleep(50).run()
+      assert.strictEqual(clock.now.run(), 150)
+    })
+
+    it('should not complete the sleeps of an aborted signal', async () => {
+      const clock = getTestClock(100)
+      const controller = getAbortController()
+      controller.abort()
+      const result = await Promise.race([
+        clock.sleep(50, controller.signal).run(),
+        clock
+          .sleep(10)
+          .run()
+          .then(() => 'end')
+      ])
+      assert.strictEqual(result, 'end')
+      assert.strictEqual(clock.now.run(), 110)
+    })
+  })
+})
@@ -94,4 +94,73 @@ describe('Do', () => {
       .return(({ name, email, len }) => ({ name, email, len }))
     assert.deepStrictEqual(user2, failure(neOf('error from email')))
   })
+  it('should add pure values to the scope', () => {
+    const user = Do(option)
+      .bind('name', some('bob'))
+      .let('email', 'bsmith@example.com')
+      .letL('len', ({ name }) => name.length)
+      .done()
+    assert.deepStrictEqual(user, some({ name: 'bob', email: 'bsmith@example.com', len: 3 }))
+
+    const user2 = Do(either)
+      .let('name', 'bob')
+      .letL('len', ({ name }) => name.length)
+      .bind('email', left<string, string>('error from email'))
+      .done()
+    assert.deepStrictEqual(user2, left('error from email'))
+  })
+
+  it('should short-circuit to zero when a filter does not hold', () => {
+    const user = Do(option)
+      .bind('name', some('bob'))
+      .filter(({ name }) => name.length > 0)
+      .letL('len', ({ name }) => name.length)
+      .done()
+    assert.deepStrictEqual(user, some({ name: 'bob', len: 3 }))
+
+    const user2 = Do(option)
+      .bind('name', some(''))
+      .filter(({ name }) => name.length > 0)
+      .bindL('len', ({ name }) => some(name.length))
+      .done()
+    assert.deepStrictEqual(user2, none)
+  })
+  it('should bind a record of independent actions', () => {
+    const user = Do(option)
+      .bind('name', some('bob'))
+      .sequenceS({ email: some('bsmith@example.com'), age: some(42) })
+      .sequenceSL(({ name }) => ({ len: some(name.length) }))
+      .done()
+    assert.deepStrictEqual(user, some({ name: 'bob', email: 'bsmith@example.com', age: 42, len: 3 }))
+
+    const user2 = Do(either)
+      .bind('name', right<string, string>('bob'))
+      .sequenceS({ email: left<string, string>('error from email'), age: right<string, number>(42) })
+      .done()
+    assert.deepStrictEqual(user2, left('error from email'))
+  })
+
+  it('should run the actions of a record with the instance ap', () => {
+    const log: Array<string> = []
+    const wait = <A>(ms: number, a: A): Task<A> =>
+      new Task(
+        () =>
+          new Promise(res => {
+            log.push(`start ${a}`)
+            setTimeout(() => {
+              log.push(`end ${a}`)
+              res(a)
+            }, ms)
+          })
+      )
+
+    const user = Do(task)
+      .sequenceS({ name: wait(10, 'bob'), email: wait(1, 'bsmith@example.com') })
+      .done()
+
+    return user.run().then(u => {
+      assert.deepStrictEqual(u, { name: 'bob', email: 'bsmith@example.com' })
+      assert.deepStrictEqual(log, ['start bob', 'start bsmith@example.com', 'end bsmith@example.com', 'end bob'])
+    })
+  })
 })
@@ -0,0 +1,186 @@
+import * as assert from 'assert'
+import { left, right } from 'fp-ts/lib/Either'
+import { monoidSum } from 'fp-ts/lib/Monoid'
+import { none, option, some } from 'fp-ts/lib/Option'
+import { task } from 'fp-ts/lib/Task'
+import { pipe } from '../src/pipeable'
+import * as _ from '../src/EitherOption'
+
+describe('EitherOption', () => {
+  const error = _.left<string, number>('error')
+
+  it('map', () => {
+    assert.deepStrictEqual(_.eitherOption.map(_.some(1), n => n * 2).value, right(some(2)))
+  })
+
+  it('ap', () => {
+    const double = (n: number) => n * 2
+    assert.deepStrictEqual(_.eitherOption.ap(_.some(double), _.some(1)).value, right(some(2)))
+    assert.deepStrictEqual(_.some(double).ap_(_.some(1)).value, right(some(2)))
+  })
+
+  it('chain', () => {
+    const f = (n: number) => (n > 0 ? _.some<string, number>(n * 2) : error)
+    assert.deepStrictEqual(_.eitherOption.chain(_.some(1), f).value, right(some(2)))
+    assert.deepStrictEqual(_.eitherOption.chain(_.some(0), f).value, left('error'))
+  })
+
+  it('fold', () => {
+    assert.deepStrictEqual(_.some(1).fold('none', n => `some(${n})`), right('some(1)'))
+    assert.deepStrictEqual(_.none.fold('none', n => `some(${n})`), right('none'))
+  })
+
+  it('getOrElse', () => {
+    assert.deepStrictEqual(_.some(1).getOrElse(0), right(1))
+    assert.deepStrictEqual(_.fromOption<string, number>(none).getOrElse(0), right(0))
+  })
+
+  it('mapLeft', () => {
+    assert.deepStrictEqual(error.mapLeft(e => e.length).value, left(5))
+  })
+
+  it('bimap', () => {
+    const f = (e: string) => e.length
+    const g = (n: number) => n * 2
+    assert.deepStrictEqual(_.eitherOption.bimap(_.some<string, number>(1), f, g).value, right(some(2)))
+    assert.deepStrictEqual(_.eitherOption.bimap(error, f, g).value, left(5))
+  })
+
+  it('alt', () => {
+    const fy = _.some<string, number>(2)
+    assert.deepStrictEqual(_.eitherOption.alt(_.some(1), fy).value, right(some(1)))
+    assert.deepStrictEqual(_.eitherOption.alt(_.fromOption(none), fy).value, right(some(2)))
+    assert.deepStrictEqual(_.eitherOption.alt(error, fy).value, right(some(2)))
+  })
+
+  it('toEither', () => {
+    assert.deepStrictEqual(_.some<string, number>(1).toEither(() => 'none'), right(1))
+    assert.deepStrictEqual(_.fromOption<string, number>(none).toEither(() => 'none'), left('none'))
+    assert.deepStrictEqual(error.toEither(() => 'none'), left('error'))
+  })
+
+  it('fromEither', () => {
+    assert.deepStrictEqual(_.fromEither(right(1)).value, right(some(1)))
+  })
+
+  it('fromNullable', () => {
+    assert.deepStrictEqual(_.fromNullable(1).value, right(some(1)))
+    assert.deepStrictEqual(_.fromNullable(null).value, right(none))
+  })
+
+  it('fromPredicate', () => {
+    const f = _.fromPredicate((n: number) => n > 0)
+    assert.deepStrictEqual(f(1).value, right(some(1)))
+    assert.deepStrictEqual(f(-1).value, right(none))
+  })
+
+  it('reduce', () => {
+    const f = (b: number, a: number) => b + a
+    assert.strictEqual(_.eitherOption.reduce(_.some(1), 10, f), 11)
+    assert.strictEqual(_.eitherOption.reduce(_.none, 10, f), 10)
+    assert.strictEqual(_.eitherOption.reduce(error, 10, f), 10)
+  })
+
+  it('foldMap', () => {
+    assert.strictEqual(_.eitherOption.foldMap(monoidSum)(_.some(1), n => n * 2), 2)
+    assert.strictEqual(_.eitherOption.foldMap(monoidSum)(error, n => n * 2), 0)
+  })
+
+  it('foldr', () => {
+    assert.strictEqual(_.eitherOption.foldr(_.some(1), 10, (a, b) => a - b), -9)
+    assert.strictEqual(_.eitherOption.foldr(error, 10, (a, b) => a - b), 10)
+  })
+
+  it('traverse', async () => {
+    const f = (n: number) => task.of(n * 2)
+    const traverse = _.eitherOption.traverse(task)
+    assert.deepStrictEqual((await traverse(_.some<string, number>(1), f).run()).value, right(some(2)))
+    assert.deepStrictEqual((await traverse(_.fromOption<string, number>(none), f).run()).value, right(none))
+    assert.deepStrictEqual((await traverse(error, f).run()).value, left('error'))
+  })
+
+  it('sequence', () => {
+    const sequence = _.eitherOption.sequence(option)
+    assert.deepStrictEqual(sequence(_.some(some(1))).map(eo => eo.value), some(right(some(1))))
+    assert.deepStrictEqual(sequence(_.some(none)), none)
+  })
+
+  it('pipeables', () => {
+    const double = (n: number) => n * 2
+    const ma = _.some<string, number>(1)
+    assert.deepStrictEqual(
+      pipe(
+        ma,
+        _.map(double),
+        _.chain(n => _.some(n + 1)),
+        _.getOrElse(0)
+      ),
+      right(3)
+    )
+    assert.deepStrictEqual(_.ap(ma)(_.some(double)).value, right(some(2)))
+    assert.deepStrictEqual(_.flatten(_.some(ma)).value, right(some(1)))
+    assert.deepStrictEqual(
+      pipe(
+        error,
+        _.mapLeft(e => e.length)
+      ).value,
+      left(5)
+    )
+    assert.deepStrictEqual(
+      pipe(
+        error,
+        _.bimap(e => e.length, double)
+      ).value,
+      left(5)
+    )
+    assert.deepStrictEqual(
+      pipe(
+        error,
+        _.alt(ma)
+      ).value,
+      right(some(1))
+    )
+    assert.deepStrictEqual(
+      pipe(
+        error,
+        _.orElse(() => ma)
+      ).value,
+      right(some(1))
+    )
+    assert.deepStrictEqual(
+      pipe(
+        ma,
+        _.fold('none', String)
+      ),
+      right('1')
+    )
+    assert.deepStrictEqual(
+      pipe(
+        _.fromOption<string, number>(none),
+        _.toEither(() => 'none')
+      ),
+      left('none')
+    )
+    assert.strictEqual(
+      pipe(
+        ma,
+        _.reduce(1, (b, n) => b + n)
+      ),
+      2
+    )
+    assert.strictEqual(
+      pipe(
+        ma,
+        _.foldMap(monoidSum)(double)
+      ),
+      2
+    )
+    assert.strictEqual(
+      pipe(
+        ma,
+        _.foldr(1, (n, b) => b + n)
+      ),
+      2
+    )
+  })
+})
@@ -0,0 +1,37 @@
+import * as assert from 'assert'
+import { none, some } from 'fp-ts/lib/Option'
+import * as _ from '../src/Lens'
+
+interface Inner {
+  count: number
+}
+
+interface Outer {
+  name: string
+  email?: string
+  inner: Inner
+}
+
+describe('Lens', () => {
+  const outer: Outer = { name: 'bob', inner: { count: 1 } }
+
+  it('focus', () => {
+    const name = _.focus<Outer>()('name')
+    assert.strictEqual(name.get(outer), 'bob')
+    assert.deepStrictEqual(name.set('alice')(outer), { name: 'alice', inner: { count: 1 } })
+    assert.deepStrictEqual(outer, { name: 'bob', inner: { count: 1 } })
+  })
+
+  it('focusOptional', () => {
+    const email = _.focusOptional<Outer>()('email')
+    assert.deepStrictEqual(email.getOption(outer), none)
+    assert.deepStrictEqual(email.getOption({ ...outer, email: 'bob@example.com' }), some('bob@example.com'))
+    assert.deepStrictEqual(email.set('bob@example.com')(outer), { ...outer, email: 'bob@example.com' })
+  })
+
+  it('composeLens', () => {
+    const count = _.composeLens(_.focus<Outer>()('inner'), _.focus<Inner>()('count'))
+    assert.strictEqual(count.get(outer), 1)
+    assert.deepStrictEqual(count.set(2)(outer), { name: 'bob', inner: { count: 2 } })
+  })
+})
@@ -0,0 +1,212 @@
+import * as assert from 'assert'
+import * as array from 'fp-ts/lib/Array'
+import { Either, left, right } from 'fp-ts/lib/Either'
+import { none, some } from 'fp-ts/lib/Option'
+import { Reader } from 'fp-ts/lib/Reader'
+import { pipe } from '../src/pipeable'
+import * as _ from '../src/ReaderEither'
+
+describe('ReaderEither', () => {
+  it('map', () => {
+    assert.deepStrictEqual(_.readerEither.map(_.ask<number, string>(), n => n * 2).run(1), right(2))
+  })
+
+  it('of', () => {
+    assert.deepStrictEqual(_.readerEither.of('a').run(1), right('a'))
+    assert.deepStrictEqual(
+      _.ask<number, string>()
+        .of('a')
+        .run(1),
+      right('a')
+    )
+  })
+
+  it('ap', () => {
+    const double = (n: number) => n * 2
+    const fab = _.readerEither.of<number, string, (n: number) => number>(double)
+    assert.deepStrictEqual(_.readerEither.ap(fab, _.ask<number, string>()).run(1), right(2))
+    assert.deepStrictEqual(fab.ap_(_.ask<number, string>()).run(1), right(2))
+  })
+
+  it('chain', () => {
+    const ma = _.readerEither.chain(_.ask<number, string>(), n => _.asks<number, string, number>(e => e + n))
+    assert.deepStrictEqual(ma.run(1), right(2))
+  })
+
+  it('fold', () => {
+    const f = (e: string) => `left(${e})`
+    const g = (n: number) => `right(${n})`
+    assert.strictEqual(
+      _.ask<number, string>()
+        .fold(f, g)
+        .run(1),
+      'right(1)'
+    )
+    assert.strictEqual(
+      _.fromLeft<number, string, number>('error')
+        .fold(f, g)
+        .run(1),
+      'left(error)'
+    )
+  })
+
+  it('getOrElse', () => {
+    assert.strictEqual(
+      _.ask<number, string>()
+        .getOrElse(0)
+        .run(1),
+      1
+    )
+    assert.strictEqual(
+      _.fromLeft<number, string, number>('error')
+        .getOrElse(0)
+        .run(1),
+      0
+    )
+  })
+
+  it('mapLeft', () => {
+    assert.deepStrictEqual(
+      _.fromLeft<number, string, number>('error')
+        .mapLeft(e => e.length)
+        .run(1),
+      left(5)
+    )
+  })
+
+  it('bimap', () => {
+    const f = (e: string) => e.length
+    const g = (n: number) => n * 2
+    assert.deepStrictEqual(_.readerEither.bimap(_.ask<number, string>(), f, g).run(1), right(2))
+    assert.deepStrictEqual(_.readerEither.bimap(_.fromLeft<number, string, number>('error'), f, g).run(1), left(5))
+  })
+
+  it('orElse', () => {
+    const f = (e: string) => _.asks<number, boolean, number>(n => e.length + n)
+    assert.deepStrictEqual(
+      _.fromLeft<number, string, number>('error')
+        .orElse(f)
+        .run(1),
+      right(6)
+    )
+    assert.deepStrictEqual(
+      _.ask<number, string>()
+        .orElse(f)
+        .run(1),
+      right(1)
+    )
+  })
+
+  it('alt', () => {
+    const fx = _.fromLeft<number, string, number>('error')
+    const fy = _.asks<number, string, number>(n => n * 2)
+    assert.deepStrictEqual(_.readerEither.alt(fx, fy).run(1), right(2))
+    assert.deepStrictEqual(_.alt(fy)(fx).run(1), right(2))
+  })
+
+  it('local', () => {
+    const length = _.asks<string, boolean, number>(s => s.length)
+    assert.deepStrictEqual(_.local((n: number) => 'a'.repeat(n))(length).run(3), right(3))
+    assert.deepStrictEqual(length.local((e: { name: string }) => e.name).run({ name: 'bob' }), right(3))
+  })
+
+  it('left', () => {
+    assert.deepStrictEqual(_.left(new Reader((n: number) => n * 2)).run(1), left(2))
+  })
+
+  it('fromEither', () => {
+    assert.deepStrictEqual(_.readerEither.fromEither(right(1)).run({}), right(1))
+    assert.deepStrictEqual(_.readerEither.fromEither(left('error')).run({}), left('error'))
+  })
+
+  it('fromOption', () => {
+    assert.deepStrictEqual(_.readerEither.fromOption(some(1), 'error').run({}), right(1))
+    assert.deepStrictEqual(_.readerEither.fromOption(none, 'error').run({}), left('error'))
+  })
+
+  it('throwError', () => {
+    assert.deepStrictEqual(_.readerEither.throwError('error').run({}), left('error'))
+  })
+
+  it('fromReader', () => {
+    assert.deepStrictEqual(_.fromReader(new Reader((n: number) => n * 2)).run(1), right(2))
+  })
+
+  it('fromPredicate', () => {
+    const f = _.fromPredicate<number, string, number>(n => n > 0, n => `${n} is not positive`)
+    assert.deepStrictEqual(f(1).run(0), right(1))
+    assert.deepStrictEqual(f(-1).run(0), left('-1 is not positive'))
+  })
+
+  it('tryCatch', () => {
+    const onerror = (reason: unknown, e: string) => `${(reason as Error).message} (${e})`
+    const parse = _.tryCatch((s: string): unknown => JSON.parse(s), onerror)
+    assert.deepStrictEqual(parse.run('{"a":1}'), right({ a: 1 }))
+    assert.deepStrictEqual(parse.run('{').isLeft(), true)
+  })
+
+  it('chainRec', () => {
+    const f = (n: number) => _.asks<number, string, Either<number, number>>(e => (n < e ? left(n + 1) : right(n)))
+    assert.deepStrictEqual(_.readerEither.chainRec(0, f).run(100000), right(100000))
+    assert.deepStrictEqual(
+      _.readerEither.chainRec(0, () => _.fromLeft<number, string, Either<number, number>>('a')).run(1),
+      left('a')
+    )
+  })
+
+  it('should be stack safe', () => {
+    const loop = (n: number): _.ReaderEither<number, string, number> =>
+      n === 0 ? _.ask() : _.ask<number, string>().chain(() => loop(n - 1))
+    assert.deepStrictEqual(loop(100000).run(1), right(1))
+    const fa = array.range(1, 100000).reduce((acc, n) => acc.map(m => m + n), _.ask<number, string>())
+    assert.deepStrictEqual(fa.run(0), right(5000050000))
+  })
+
+  it('pipeables', () => {
+    const double = (n: number) => n * 2
+    const error = _.fromLeft<number, string, number>('error')
+    const ma = pipe(
+      _.ask<number, string>(),
+      _.map(double),
+      _.chain(n => _.asks<number, string, number>(e => e + n))
+    )
+    assert.deepStrictEqual(ma.run(1), right(3))
+    assert.deepStrictEqual(_.ap(_.ask<number, string>())(_.readerEither.of(double)).run(1), right(2))
+    assert.deepStrictEqual(_.flatten(_.ask<number, string>().map(() => _.ask<number, string>())).run(1), right(1))
+    assert.deepStrictEqual(
+      pipe(
+        error,
+        _.mapLeft(e => e.length)
+      ).run(1),
+      left(5)
+    )
+    assert.deepStrictEqual(
+      pipe(
+        error,
+        _.bimap(e => e.length, double)
+      ).run(1),
+      left(5)
+    )
+    assert.deepStrictEqual(
+      pipe(
+        error,
+        _.orElse(e => _.readerEither.of(e.length))
+      ).run(1),
+      right(5)
+    )
+    assert.strictEqual(
+      pipe(
+        error,
+        _.fold(e => e, String)
+      ).run(1),
+      'error'
+    )
+    assert.strictEqual(
+      pipe(
+        error,
+        _.getOrElse(0)
+      ).run(1),
+      0
+    )
+  })
+})
@@ -0,0 +1,129 @@
+import * as assert from 'assert'
+import * as array from 'fp-ts/lib/Array'
+import { left, right } from 'fp-ts/lib/Either'
+import { IO } from 'fp-ts/lib/IO'
+import { Reader } from 'fp-ts/lib/Reader'
+import { getTestClock } from '../src/Clock'
+import { pipe } from '../src/pipeable'
+import * as _ from '../src/ReaderIO'
+import { timeWith } from '../src/time'
+
+const run = <E, A>(fa: _.ReaderIO<E, A>, e: E): A => fa.run(e).run()
+
+describe('ReaderIO', () => {
+  it('map', () => {
+    assert.strictEqual(run(_.readerIO.map(_.ask<number>(), n => n * 2), 1), 2)
+  })
+
+  it('of', () => {
+    assert.strictEqual(run(_.readerIO.of<number, string>('a'), 1), 'a')
+    assert.strictEqual(run(_.ask<number>().of<number, string>('a'), 1), 'a')
+  })
+
+  it('ap', () => {
+    const double = (n: number) => n * 2
+    const fab = _.readerIO.of<number, (n: number) => number>(double)
+    assert.strictEqual(run(_.readerIO.ap(fab, _.ask<number>()), 1), 2)
+    assert.strictEqual(run(fab.ap_(_.ask<number>()), 1), 2)
+  })
+
+  it('chain', () => {
+    assert.strictEqual(run(_.readerIO.chain(_.ask<number>(), n => _.asks(e => e + n)), 1), 2)
+  })
+
+  it('local', () => {
+    const length = _.asks((s: string) => s.length)
+    assert.strictEqual(run(_.local((n: number) => 'a'.repeat(n))(length), 3), 3)
+    assert.strictEqual(run(length.local((e: { name: string }) => e.name), { name: 'bob' }), 3)
+  })
+
+  it('provide', () => {
+    assert.strictEqual(run(_.provide(2)(_.asks((n: number) => n * 2)), {}), 4)
+  })
+
+  it('provideSome', () => {
+    const ma = _.asks((e: { a: number; b: string }) => e.b.repeat(e.a))
+    assert.strictEqual(run(_.provideSome({ a: 2 })(ma), { b: 'x' }), 'xx')
+  })
+
+  it('fromIO', () => {
+    assert.strictEqual(run(_.readerIO.fromIO(new IO(() => 1)), {}), 1)
+  })
+
+  it('fromReader', () => {
+    assert.strictEqual(run(_.fromReader(new Reader((n: number) => n * 2)), 1), 2)
+  })
+
+  it('should work with time', () => {
+    const clock = getTestClock()
+    const ma = _.fromIO<number, void>(clock.advance(10)).chain(() => _.ask())
+    assert.deepStrictEqual(run(timeWith(clock)(_.readerIO)(ma), 1), [1, 10])
+  })
+
+  it('chainRec', () => {
+    const f = (n: number) => _.asks((e: number) => (n < e ? left<number, number>(n + 1) : right<number, number>(n)))
+    assert.strictEqual(run(_.readerIO.chainRec(0, f), 100000), 100000)
+  })
+
+  it('should be stack safe', () => {
+    const loop = (n: number): _.ReaderIO<number, number> =>
+      n === 0 ? _.ask() : _.ask<number>().chain(() => loop(n - 1))
+    assert.strictEqual(run(loop(100000), 1), 1)
+    const fa = array.range(1, 100000).reduce((acc, n) => acc.map(m => m + n), _.ask<number>())
+    assert.strictEqual(run(fa, 0), 5000050000)
+  })
+
+  it('pipeables', () => {
+    const double = (n: number) => n * 2
+    const ma = pipe(
+      _.ask<number>(),
+      _.map(double),
+      _.chain(n => _.asks((e: number) => e + n))
+    )
+    assert.strictEqual(run(ma, 1), 3)
+    assert.strictEqual(run(_.ap(_.ask<number>())(_.readerIO.of(double)), 1), 2)
+    assert.strictEqual(run(_.flatten(_.ask<number>().map(() => _.ask<number>())), 1), 1)
+  })
+
+  describe('bracket', () => {
+    let log: Array<string> = []
+    const acquire = _.asks((e: number) => e * 10)
+    const release = (n: number) => _.asks((e: number) => log.push(`release ${n} ${e}`)).map(() => undefined)
+
+    beforeEach(() => {
+      log = []
+    })
+
+    it('should release after a success', () => {
+      assert.strictEqual(run(_.bracket(acquire, n => _.asks((e: number) => n + e), release), 1), 11)
+      assert.deepStrictEqual(log, ['release 10 1'])
+    })
+
+    it('should release after an exception', () => {
+      const use = (): _.ReaderIO<number, number> => {
+        throw new Error('boom')
+      }
+      assert.throws(() => run(_.bracket(acquire, use, release), 1), /boom/)
+      assert.deepStrictEqual(log, ['release 10 1'])
+    })
+
+    it('should keep the exception of use when release throws too', () => {
+      const use = (): _.ReaderIO<number, number> => {
+        throw new Error('use')
+      }
+      const failingRelease = (n: number) =>
+        release(n).map(() => {
+          throw new Error('release')
+        })
+      assert.throws(() => run(_.bracket(acquire, use, failingRelease), 1), /use/)
+      assert.deepStrictEqual(log, ['release 10 1'])
+    })
+
+    it('should throw the exception of release after a success', () => {
+      const failingRelease = (): _.ReaderIO<number, void> => {
+        throw new Error('release')
+      }
+      assert.throws(() => run(_.bracket(acquire, n => _.asks((e: number) => n + e), failingRelease), 1), /release/)
+    })
+  })
+})
@@ -0,0 +1,35 @@
+import * as assert from 'assert'
+import { left, right } from 'fp-ts/lib/Either'
+import { batchTraverseM } from '../src/batchTraverseM'
+import { getTestClock } from '../src/Clock'
+import { Do } from '../src/Do'
+import * as _ from '../src/ReaderTaskEither'
+import { timeWith } from '../src/time'
+
+interface Env {
+  readonly base: number
+}
+
+describe('ReaderTaskEither', () => {
+  it('should work with Do', async () => {
+    const program = Do(_.readerTaskEither)
+      .bind('base', _.asks<Env, string, number>(e => e.base))
+      .bindL('n', ({ base }) =>
+        base > 0 ? _.readerTaskEither.of<Env, string, number>(base * 2) : _.fromLeft<Env, string, number>('negative')
+      )
+      .return(({ n }) => n + 1)
+    assert.deepStrictEqual(await program.run({ base: 1 }), right(3))
+    assert.deepStrictEqual(await program.run({ base: -1 }), left('negative'))
+  })
+
+  it('should work with batchTraverseM', async () => {
+    const program = batchTraverseM(_.readerTaskEither)([[1, 2], [3]], n => _.asks<Env, string, number>(e => e.base + n))
+    assert.deepStrictEqual(await program.run({ base: 10 }), right([11, 12, 13]))
+  })
+
+  it('should work with time', async () => {
+    const clock = getTestClock()
+    const program = timeWith(clock)(_.readerTaskEither)(_.fromIO<Env, string, void>(clock.advance(5)))
+    assert.deepStrictEqual(await program.run({ base: 0 }), right([undefined, 5]))
+  })
+})
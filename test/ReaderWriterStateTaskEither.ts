@@ -0,0 +1,135 @@
+import * as assert from 'assert'
+import { left, right } from 'fp-ts/lib/Either'
+import { io } from 'fp-ts/lib/IO'
+import { getArrayMonoid } from 'fp-ts/lib/Monoid'
+import { task } from 'fp-ts/lib/Task'
+import { fromLeft } from 'fp-ts/lib/TaskEither'
+import { Do } from '../src/Do'
+import * as _ from '../src/ReaderWriterStateTaskEither'
+
+interface Env {
+  prefix: string
+}
+
+const M = _.getMonad<Env, Array<string>, number, string>(getArrayMonoid<string>())
+const tell = (w: string) => _.tell<Env, Array<string>, number, string>([w])
+const fail = (l: string) => _.fromLeft<Env, Array<string>, number, string, number>(l)
+const env: Env = { prefix: '> ' }
+
+describe('ReaderWriterStateTaskEither', () => {
+  it('run', async () => {
+    assert.deepStrictEqual(await M.of(1).run(env, 0), right([1, 0, []]))
+    assert.deepStrictEqual(await fail('error').run(env, 0), left('error'))
+  })
+
+  it('eval', async () => {
+    assert.deepStrictEqual(await M.chain(tell('a'), () => M.of(1)).eval(env, 0), right([1, ['a']]))
+  })
+
+  it('exec', async () => {
+    assert.deepStrictEqual(await M.chain(tell('a'), () => M.put(2)).exec(env, 0), right([2, ['a']]))
+  })
+
+  it('map', async () => {
+    assert.deepStrictEqual(await M.map(M.of(1), n => n * 2).run(env, 0), right([2, 0, []]))
+  })
+
+  it('ap', async () => {
+    const fab = M.chain(tell('a'), () => M.of((n: number) => n * 2))
+    const fa = M.chain(tell('b'), () => M.of(1))
+    assert.deepStrictEqual(await M.ap(fab, fa).run(env, 0), right([2, 0, ['a', 'b']]))
+  })
+
+  it('chain', async () => {
+    const fa = M.chain(tell('a'), () => M.modify(n => n + 1))
+    assert.deepStrictEqual(await M.chain(fa, () => tell('b')).run(env, 0), right([undefined, 1, ['a', 'b']]))
+    assert.deepStrictEqual(await M.chain(fa, () => fail('error')).run(env, 0), left('error'))
+  })
+
+  it('ask', async () => {
+    assert.deepStrictEqual(await M.ask().run(env, 0), right([env, 0, []]))
+    assert.deepStrictEqual(await M.asks(e => e.prefix).run(env, 0), right(['> ', 0, []]))
+  })
+
+  it('local', async () => {
+    const fa = _.local((prefix: string) => ({ prefix }))(M.asks(e => e.prefix))
+    assert.deepStrictEqual(await fa.run('$ ', 0), right(['$ ', 0, []]))
+  })
+
+  it('get', async () => {
+    assert.deepStrictEqual(await M.get().run(env, 1), right([1, 1, []]))
+    assert.deepStrictEqual(await M.gets(n => n * 2).run(env, 1), right([2, 1, []]))
+  })
+
+  it('state and environment functions', async () => {
+    const W = getArrayMonoid<string>()
+    assert.deepStrictEqual(await _.ask<Env, Array<string>, number, string>(W).run(env, 1), right([env, 1, []]))
+    assert.deepStrictEqual(await _.asks(W)((e: Env) => e.prefix).run(env, 1), right(['> ', 1, []]))
+    assert.deepStrictEqual(await _.get<Env, Array<string>, number, string>(W).run(env, 1), right([1, 1, []]))
+    assert.deepStrictEqual(await _.gets(W)((n: number) => n * 2).run(env, 1), right([2, 1, []]))
+    assert.deepStrictEqual(await _.put(W)(2).run(env, 1), right([undefined, 2, []]))
+    assert.deepStrictEqual(await _.modify(W)((n: number) => n + 1).run(env, 1), right([undefined, 2, []]))
+  })
+
+  it('listen', async () => {
+    assert.deepStrictEqual(await _.listen(tell('a')).run(env, 0), right([[undefined, ['a']], 0, ['a']]))
+  })
+
+  it('censor', async () => {
+    const fa = M.chain(tell('a'), () => tell('b'))
+    assert.deepStrictEqual(
+      await _.censor((w: Array<string>) => w.slice(1))(fa).run(env, 0),
+      right([undefined, 0, ['b']])
+    )
+  })
+
+  it('mapLeft', async () => {
+    assert.deepStrictEqual(
+      await fail('error')
+        .mapLeft(s => s.length)
+        .run(env, 0),
+      left(5)
+    )
+  })
+
+  it('orElse', async () => {
+    assert.deepStrictEqual(
+      await fail('error')
+        .orElse(() => M.of(1))
+        .run(env, 0),
+      right([1, 0, []])
+    )
+    assert.deepStrictEqual(
+      await M.of(1)
+        .orElse(() => M.of(2))
+        .run(env, 0),
+      right([1, 0, []])
+    )
+  })
+
+  it('throwError', async () => {
+    assert.deepStrictEqual(await M.throwError('error').run(env, 0), left('error'))
+  })
+
+  it('fromTaskEither', async () => {
+    assert.deepStrictEqual(await M.fromTaskEither(fromLeft('error')).run(env, 0), left('error'))
+  })
+
+  it('fromIO', async () => {
+    assert.deepStrictEqual(await M.fromIO(io.of(1)).run(env, 0), right([1, 0, []]))
+  })
+
+  it('fromTask', async () => {
+    assert.deepStrictEqual(await M.fromTask(task.of(1)).run(env, 0), right([1, 0, []]))
+  })
+
+  it('Do', async () => {
+    const program = Do(M)
+      .bind('prefix', M.asks(e => e.prefix))
+      .bindL('n', () => M.get())
+      .doL(({ prefix, n }) => tell(`${prefix}${n}`))
+      .do(M.modify(n => n + 1))
+      .return(({ n }) => n * 2)
+    assert.deepStrictEqual(await program.run(env, 1), right([2, 2, ['> 1']]))
+  })
+})
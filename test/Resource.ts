@@ -0,0 +1,91 @@
+import * as assert from 'assert'
+import { left, right } from 'fp-ts/lib/Either'
+import { IO } from 'fp-ts/lib/IO'
+import { Task } from 'fp-ts/lib/Task'
+import { TaskEither, fromIO, fromLeft, taskEither } from 'fp-ts/lib/TaskEither'
+import { Do } from '../src/Do'
+import { pipe } from '../src/pipeable'
+import * as _ from '../src/Resource'
+
+describe('Resource', () => {
+  let log: Array<string> = []
+  const trace = (message: string) => new IO(() => log.push(message)).map(() => undefined)
+  const open = (name: string) =>
+    _.make(fromIO<string, string>(trace(`open ${name}`).map(() => name)), () =>
+      fromIO<string, void>(trace(`close ${name}`))
+    )
+  const both = open('a').chain(a => open('b').map(b => `${a}, ${b}`))
+
+  beforeEach(() => {
+    log = []
+  })
+
+  it('use', async () => {
+    assert.deepStrictEqual(await both.use(s => taskEither.of<string, string>(s)).run(), right('a, b'))
+    assert.deepStrictEqual(log, ['open a', 'open b', 'close b', 'close a'])
+  })
+
+  it('should release when use fails', async () => {
+    assert.deepStrictEqual(await both.use(s => fromLeft<string, string>(s)).run(), left('a, b'))
+    assert.deepStrictEqual(log, ['open a', 'open b', 'close b', 'close a'])
+  })
+
+  it('should release when use rejects', async () => {
+    const use = () => new TaskEither<string, string>(new Task(() => Promise.reject(new Error('boom'))))
+    await both
+      .use(use)
+      .run()
+      .then(() => assert.fail('should reject'), e => assert.strictEqual(e.message, 'boom'))
+    assert.deepStrictEqual(log, ['open a', 'open b', 'close b', 'close a'])
+  })
+
+  it('should release the acquired resources when an acquisition fails', async () => {
+    const ma = open('a').chain(() => _.fromLeft<string, string>('error'))
+    assert.deepStrictEqual(await ma.use(s => taskEither.of<string, string>(s)).run(), left('error'))
+    assert.deepStrictEqual(log, ['open a', 'close a'])
+  })
+
+  it('should report release errors', async () => {
+    const ma = _.make(taskEither.of<string, number>(1), () => fromLeft<string, void>('release error'))
+    assert.deepStrictEqual(await ma.use(n => taskEither.of<string, number>(n)).run(), left('release error'))
+  })
+
+  it('ap', async () => {
+    const fab = _.resource.map(open('a'), a => (b: string) => `${a}, ${b}`)
+    assert.deepStrictEqual(
+      await _.resource
+        .ap(fab, open('b'))
+        .use(s => taskEither.of(s))
+        .run(),
+      right('a, b')
+    )
+    assert.deepStrictEqual(
+      await fab
+        .ap_(open('c'))
+        .use(s => taskEither.of(s))
+        .run(),
+      right('a, c')
+    )
+  })
+
+  it('Do', async () => {
+    const ma = Do(_.resource)
+      .bind('a', open('a'))
+      .bind('b', _.resource.of<string, string>('b'))
+      .return(({ a, b }) => `${a}, ${b}`)
+    assert.deepStrictEqual(await ma.use(s => taskEither.of(s)).run(), right('a, b'))
+    assert.deepStrictEqual(log, ['open a', 'close a'])
+  })
+
+  it('pipeables', async () => {
+    const use = _.use((s: string) => taskEither.of<string, string>(s))
+    const ma = pipe(
+      open('a'),
+      _.map(a => `${a}!`),
+      _.chain(a => _.fromTaskEither(taskEither.of<string, string>(`${a}?`)))
+    )
+    assert.deepStrictEqual(await use(ma).run(), right('a!?'))
+    assert.deepStrictEqual(await use(_.ap(open('b'))(_.resource.of((b: string) => b.toUpperCase()))).run(), right('B'))
+    assert.deepStrictEqual(await use(_.flatten(open('a').map(() => open('b')))).run(), right('b'))
+  })
+})
@@ -0,0 +1,88 @@
+import * as assert from 'assert'
+import * as array from 'fp-ts/lib/Array'
+import { left, right } from 'fp-ts/lib/Either'
+import { IO } from 'fp-ts/lib/IO'
+import { none, some } from 'fp-ts/lib/Option'
+import { State } from 'fp-ts/lib/State'
+import { focus, focusOptional } from '../src/Lens'
+import { pipe } from '../src/pipeable'
+import * as _ from '../src/StateIO'
+
+describe('StateIO', () => {
+  it('run', () => {
+    const ma = _.stateIO.of<number, string>('a')
+    assert.deepStrictEqual(ma.run(0), ['a', 0])
+    assert.strictEqual(ma.eval(0), 'a')
+    assert.strictEqual(ma.exec(0), 0)
+  })
+
+  it('map', () => {
+    assert.deepStrictEqual(_.stateIO.map(_.get<number>(), n => n * 2).run(1), [2, 1])
+  })
+
+  it('ap', () => {
+    const double = (n: number) => n * 2
+    const fab = _.stateIO.of<number, (n: number) => number>(double)
+    assert.deepStrictEqual(_.stateIO.ap(fab, _.get<number>()).run(1), [2, 1])
+    assert.deepStrictEqual(fab.ap_(_.get<number>()).run(1), [2, 1])
+  })
+
+  it('chain', () => {
+    assert.deepStrictEqual(_.stateIO.chain(_.get<number>(), n => _.put(n + 1)).run(1), [undefined, 2])
+  })
+
+  it('modify', () => {
+    assert.deepStrictEqual(_.modify((n: number) => n * 2).run(2), [undefined, 4])
+  })
+
+  it('gets', () => {
+    assert.deepStrictEqual(_.gets((n: number) => n * 2).run(2), [4, 2])
+  })
+
+  it('fromIO', () => {
+    assert.deepStrictEqual(_.fromIO<number, string>(new IO(() => 'a')).run(1), ['a', 1])
+  })
+
+  it('fromState', () => {
+    const state = new State((s: number) => [s + 1, s * 2])
+    assert.deepStrictEqual(_.fromState(state).run(2), [3, 4])
+  })
+
+  it('chainRec', () => {
+    const f = (n: number) => _.gets((s: number) => (n < s ? left<number, number>(n + 1) : right<number, number>(n)))
+    assert.deepStrictEqual(_.stateIO.chainRec(0, f).run(100000), [100000, 100000])
+  })
+
+  it('should be stack safe', () => {
+    const loop = (n: number): _.StateIO<number, number> =>
+      n === 0 ? _.get() : _.modify((s: number) => s + 1).chain(() => loop(n - 1))
+    assert.deepStrictEqual(loop(100000).run(0), [100000, 100000])
+    const fa = array.range(1, 100000).reduce((acc, n) => acc.map(m => m + n), _.get<number>())
+    assert.strictEqual(fa.eval(0), 5000050000)
+  })
+
+  it('zoom', () => {
+    const count = focus<{ name: string; count: number }>()('count')
+    const fa = _.zoom(count)(_.modify((n: number) => n + 1).chain(() => _.get()))
+    assert.deepStrictEqual(fa.run({ name: 'a', count: 1 }), [2, { name: 'a', count: 2 }])
+  })
+
+  it('zoomOptional', () => {
+    const count = focusOptional<{ name: string; count?: number }>()('count')
+    const fa = _.zoomOptional(count)(_.modify((n: number) => n + 1).chain(() => _.get()))
+    assert.deepStrictEqual(fa.run({ name: 'a', count: 1 }), [some(2), { name: 'a', count: 2 }])
+    assert.deepStrictEqual(fa.run({ name: 'a' }), [none, { name: 'a' }])
+  })
+
+  it('pipeables', () => {
+    const double = (n: number) => n * 2
+    const ma = pipe(
+      _.get<number>(),
+      _.map(double),
+      _.chain(n => _.gets((s: number) => s + n))
+    )
+    assert.deepStrictEqual(ma.run(1), [3, 1])
+    assert.deepStrictEqual(_.ap(_.get<number>())(_.stateIO.of(double)).run(1), [2, 1])
+    assert.deepStrictEqual(_.flatten(_.get<number>().map(() => _.get<number>())).run(1), [1, 1])
+  })
+})
@@ -0,0 +1,402 @@
+/// <reference path="./AbortController.d.ts" />
+import * as assert from 'assert'
+import * as array from 'fp-ts/lib/Array'
+import { Either, left, right } from 'fp-ts/lib/Either'
+import { IO } from 'fp-ts/lib/IO'
+import { none, some } from 'fp-ts/lib/Option'
+import { State } from 'fp-ts/lib/State'
+import { Task, task } from 'fp-ts/lib/Task'
+import { fromLeft, taskEither } from 'fp-ts/lib/TaskEither'
+import { AbortSignal, isCancelled } from '../src/cancel'
+import { getTestClock } from '../src/Clock'
+import { focus, focusOptional } from '../src/Lens'
+import { pipe } from '../src/pipeable'
+import { timeWith } from '../src/time'
+import * as _ from '../src/StateTaskEither'
+
+const assertCancelled = async (p: Promise<Either<unknown, unknown>>) => {
+  const e = await p
+  assert.ok(e.isLeft() && isCancelled(e.value))
+}
+
+describe('StateTaskEither', () => {
+  it('run', async () => {
+    const ma = _.stateTaskEither.of<number, string, string>('a')
+    assert.deepStrictEqual(await ma.run(0), right(['a', 0]))
+    assert.deepStrictEqual(await ma.eval(0), right('a'))
+    assert.deepStrictEqual(await ma.exec(0), right(0))
+  })
+
+  it('map', async () => {
+    const ma = _.stateTaskEither.map(_.stateTaskEither.of<number, string, number>(1), n => n * 2)
+    assert.deepStrictEqual(await ma.run(0), right([2, 0]))
+  })
+
+  it('ap', async () => {
+    const double = (n: number) => n * 2
+    const fab = _.stateTaskEither.of<number, string, (n: number) => number>(double)
+    const fa = _.stateTaskEither.of<number, string, number>(1)
+    assert.deepStrictEqual(await _.stateTaskEither.ap(fab, fa).run(0), right([2, 0]))
+    assert.deepStrictEqual(await fab.ap_(fa).run(0), right([2, 0]))
+  })
+
+  it('chain', async () => {
+    const ma = _.stateTaskEither.chain(_.get<string, number>(), s => _.put<string, number>(s + 1))
+    assert.deepStrictEqual(await ma.run(0), right([undefined, 1]))
+  })
+
+  it('orElse', async () => {
+    const ma = _.fromTaskEither<number, string, number>(fromLeft('error')).orElse(e => _.gets(s => e.length + s))
+    assert.deepStrictEqual(await ma.run(1), right([6, 1]))
+    assert.deepStrictEqual(await _.fromTaskEither<number, string, number>(fromLeft('error')).run(1), left('error'))
+  })
+
+  it('modify', async () => {
+    assert.deepStrictEqual(await _.modify<string, number>(s => s * 2).run(2), right([undefined, 4]))
+  })
+
+  it('fromTaskEither', async () => {
+    assert.deepStrictEqual(await _.fromTaskEither(taskEither.of<string, number>(1)).run(0), right([1, 0]))
+  })
+
+  it('fromState', async () => {
+    const state = new State((s: number) => [s + 1, s * 2])
+    assert.deepStrictEqual(await _.fromState(state).run(2), right([3, 4]))
+  })
+
+  it('alt', async () => {
+    const fx = _.fromLeft<number, string, number>('error')
+    const fy = _.gets<number, string, number>(s => s * 2)
+    assert.deepStrictEqual(await _.stateTaskEither.alt(fx, fy).run(1), right([2, 1]))
+    assert.deepStrictEqual(await _.stateTaskEither.alt(fy, fx).run(2), right([4, 2]))
+  })
+
+  it('mapLeft', async () => {
+    const ma = _.fromLeft<number, string, number>('error').mapLeft(e => e.length)
+    assert.deepStrictEqual(await ma.run(0), left(5))
+  })
+
+  it('bimap', async () => {
+    const f = (e: string) => e.length
+    const g = (n: number) => n * 2
+    assert.deepStrictEqual(
+      await _.stateTaskEither.bimap(_.fromLeft<number, string, number>('error'), f, g).run(0),
+      left(5)
+    )
+    assert.deepStrictEqual(
+      await _.stateTaskEither.bimap(_.gets<number, string, number>(s => s + 1), f, g).run(1),
+      right([4, 1])
+    )
+  })
+
+  it('fold', async () => {
+    const f = (e: string) => `left(${e})`
+    const g = (n: number, s: number) => `right(${n}, ${s})`
+    assert.strictEqual(
+      await _.fromLeft<number, string, number>('error')
+        .fold(f, g)(0)
+        .run(),
+      'left(error)'
+    )
+    assert.strictEqual(
+      await _.modify<string, number>(s => s + 1)
+        .chain(() => _.get())
+        .map(s => s * 2)
+        .fold(f, g)(1)
+        .run(),
+      'right(4, 2)'
+    )
+  })
+
+  it('left', async () => {
+    assert.deepStrictEqual(await _.left(task.of('error')).run(0), left('error'))
+  })
+
+  it('fromEither', async () => {
+    assert.deepStrictEqual(await _.stateTaskEither.fromEither(right(1)).run(0), right([1, 0]))
+    assert.deepStrictEqual(await _.stateTaskEither.fromEither(left('error')).run(0), left('error'))
+  })
+
+  it('fromOption', async () => {
+    assert.deepStrictEqual(await _.stateTaskEither.fromOption(some(1), 'error').run(0), right([1, 0]))
+    assert.deepStrictEqual(await _.stateTaskEither.fromOption(none, 'error').run(0), left('error'))
+  })
+
+  it('throwError', async () => {
+    assert.deepStrictEqual(await _.stateTaskEither.throwError('error').run(0), left('error'))
+  })
+
+  it('fromIO', async () => {
+    assert.deepStrictEqual(await _.stateTaskEither.fromIO(new IO(() => 1)).run(0), right([1, 0]))
+  })
+
+  it('fromTask', async () => {
+    assert.deepStrictEqual(await _.stateTaskEither.fromTask(task.of(1)).run(0), right([1, 0]))
+  })
+
+  it('fromPredicate', async () => {
+    const f = _.fromPredicate<number, string, number>(n => n > 0, n => `${n} is not positive`)
+    assert.deepStrictEqual(await f(1).run(0), right([1, 0]))
+    assert.deepStrictEqual(await f(-1).run(0), left('-1 is not positive'))
+  })
+
+  it('tryCatch', async () => {
+    const onrejected = (reason: unknown, s: number) => `${String(reason)} (${s})`
+    assert.deepStrictEqual(await _.tryCatch((s: number) => Promise.resolve(s * 2), onrejected).run(1), right([2, 1]))
+    assert.deepStrictEqual(await _.tryCatch(() => Promise.reject('error'), onrejected).run(1), left('error (1)'))
+  })
+
+  it('tryCatch (with a signal)', async () => {
+    const controller = new AbortController()
+    const onrejected = (reason: unknown, s: number) => `${String(reason)} (${s})`
+    const f = (s: number, signal: AbortSignal) =>
+      s > 0
+        ? Promise.resolve(s * 2)
+        : new Promise<number>((_, reject) => signal.addEventListener('abort', () => reject('aborted')))
+    const ma = _.tryCatch(f, onrejected, controller.signal)
+    assert.deepStrictEqual(await ma.run(1), right([2, 1]))
+    assert.deepStrictEqual(
+      await _.tryCatch(() => Promise.reject('error'), onrejected, controller.signal).run(1),
+      left('error (1)')
+    )
+    const pending = ma.run(0)
+    controller.abort()
+    await assertCancelled(pending)
+  })
+
+  it('run (with a signal)', async () => {
+    const controller = new AbortController()
+    const log: Array<string> = []
+    const step = (name: string) =>
+      _.fromIO<number, string, number>(new IO(() => log.push(name))).chain(() => _.modify<string, number>(s => s + 1))
+    const ma = step('a').chain(() => step('b'))
+    assert.deepStrictEqual(await ma.run(0, controller.signal), right([undefined, 2]))
+    assert.deepStrictEqual(await ma.eval(0, controller.signal), right(undefined))
+    assert.deepStrictEqual(await ma.exec(0, controller.signal), right(2))
+    const abort = _.fromIO<number, string, void>(new IO(() => controller.abort()))
+    log.length = 0
+    await assertCancelled(
+      step('a')
+        .chain(() => abort)
+        .chain(() => step('b'))
+        .run(0, controller.signal)
+    )
+    assert.deepStrictEqual(log, ['a'])
+    await assertCancelled(ma.run(0, controller.signal))
+    assert.deepStrictEqual(log, ['a'])
+  })
+
+  it('run (with a signal) should cancel the nested runs', async () => {
+    const log: Array<string> = []
+    const step = (name: string) =>
+      _.fromIO<number, string, void>(
+        new IO(() => {
+          log.push(name)
+        })
+      )
+    const abort = (controller: AbortController) => _.fromIO<number, string, void>(new IO(() => controller.abort()))
+    const flush = () => new Promise(resolve => setImmediate(resolve))
+
+    const c1 = new AbortController()
+    const inOrElse = _.fromLeft<number, string, void>('error').orElse(() =>
+      step('a')
+        .chain(() => abort(c1))
+        .chain(() => step('b'))
+        .chain(() => step('c'))
+    )
+    await assertCancelled(inOrElse.run(0, c1.signal))
+    await flush()
+    assert.deepStrictEqual(log, ['a'])
+
+    log.length = 0
+    const c2 = new AbortController()
+    const handled = abort(c2)
+      .chain(() => step('a'))
+      .orElse(() => step('handler'))
+    await assertCancelled(handled.run(0, c2.signal))
+    await flush()
+    assert.deepStrictEqual(log, [])
+
+    log.length = 0
+    const c3 = new AbortController()
+    const bracketed = _.bracket(step('acquire'), () => abort(c3).chain(() => step('use')), () => step('release'))
+    await assertCancelled(bracketed.run(0, c3.signal))
+    await flush()
+    assert.deepStrictEqual(log, ['acquire', 'release'])
+  })
+
+  it('should work with time', async () => {
+    const clock = getTestClock()
+    const ma = _.fromIO<number, string, void>(clock.advance(10)).chain(() => _.modify(s => s + 1))
+    assert.deepStrictEqual(await timeWith(clock)(_.stateTaskEither)(ma).run(1), right([[undefined, 10], 2]))
+  })
+
+  it('chainRec', async () => {
+    const f = (n: number) => _.gets<number, string, Either<number, number>>(s => (n < s ? left(n + 1) : right(n)))
+    assert.deepStrictEqual(await _.stateTaskEither.chainRec(0, f).run(100000), right([100000, 100000]))
+  })
+
+  it('should be stack safe', async () => {
+    const loop = (n: number): _.StateTaskEither<number, string, number> =>
+      n === 0 ? _.get() : _.modify<string, number>(s => s + 1).chain(() => loop(n - 1))
+    assert.deepStrictEqual(await loop(100000).run(0), right([100000, 100000]))
+    const fa = array
+      .range(1, 100000)
+      .reduce((acc, n) => acc.chain(() => _.modify<string, number>(s => s + n)), _.modify<string, number>(s => s))
+    assert.deepStrictEqual(await fa.exec(0), right(5000050000))
+    const fb = array
+      .range(1, 100000)
+      .reduce(acc => acc.map(n => n + 1), _.stateTaskEither.of<number, string, number>(0))
+    assert.deepStrictEqual(await fb.eval(0), right(100000))
+  })
+
+  it('zoom', async () => {
+    const count = focus<{ name: string; count: number }>()('count')
+    const fa = _.zoom(count)(_.modify<string, number>(n => n + 1).chain(() => _.get()))
+    assert.deepStrictEqual(await fa.run({ name: 'a', count: 1 }), right([2, { name: 'a', count: 2 }]))
+  })
+
+  it('zoomOptional', async () => {
+    const count = focusOptional<{ name: string; count?: number }>()('count')
+    const fa = _.zoomOptional(count, s => `${s.name} has no count`)(
+      _.modify<string, number>(n => n + 1).chain(() => _.get())
+    )
+    assert.deepStrictEqual(await fa.run({ name: 'a', count: 1 }), right([2, { name: 'a', count: 2 }]))
+    assert.deepStrictEqual(await fa.run({ name: 'a' }), left('a has no count'))
+  })
+
+  it('pipeables', async () => {
+    const double = (n: number) => n * 2
+    const error = _.fromLeft<number, string, number>('error')
+    const ma = pipe(
+      _.get<string, number>(),
+      _.map(double),
+      _.chain(n => _.gets<number, string, number>(s => s + n))
+    )
+    assert.deepStrictEqual(await ma.run(1), right([3, 1]))
+    assert.deepStrictEqual(await _.ap(_.get<string, number>())(_.stateTaskEither.of(double)).run(1), right([2, 1]))
+    assert.deepStrictEqual(
+      await _.flatten(_.get<string, number>().map(() => _.get<string, number>())).run(1),
+      right([1, 1])
+    )
+    assert.deepStrictEqual(
+      await pipe(
+        error,
+        _.mapLeft(e => e.length)
+      ).run(1),
+      left(5)
+    )
+    assert.deepStrictEqual(
+      await pipe(
+        error,
+        _.bimap(e => e.length, double)
+      ).run(1),
+      left(5)
+    )
+    assert.deepStrictEqual(
+      await pipe(
+        error,
+        _.alt(_.get())
+      ).run(1),
+      right([1, 1])
+    )
+    assert.deepStrictEqual(
+      await pipe(
+        error,
+        _.orElse(e => _.stateTaskEither.of(e.length))
+      ).run(1),
+      right([5, 1])
+    )
+    assert.strictEqual(
+      await pipe(
+        error,
+        _.fold(e => e, String)
+      )(1).run(),
+      'error'
+    )
+  })
+
+  describe('bracket', () => {
+    let log: Array<string> = []
+    const acquire = _.gets<number, string, number>(s => s * 10)
+    const release = (n: number) =>
+      _.fromIO<number, string, void>(new IO(() => log.push(`release ${n}`)).map(() => undefined)).chain(() =>
+        _.modify<string, number>(s => s + 1)
+      )
+
+    beforeEach(() => {
+      log = []
+    })
+
+    it('should release after a success, with the state left by use', async () => {
+      const use = (n: number) => _.put<string, number>(5).map(() => n)
+      assert.deepStrictEqual(await _.bracket(acquire, use, release).run(1), right([10, 6]))
+      assert.deepStrictEqual(log, ['release 10'])
+    })
+
+    it('should release after a left', async () => {
+      const use = () => _.fromLeft<number, string, number>('error')
+      assert.deepStrictEqual(await _.bracket(acquire, use, release).run(1), left('error'))
+      assert.deepStrictEqual(log, ['release 10'])
+    })
+
+    it('should release after a rejection', async () => {
+      const use = () => _.fromTask<number, string, number>(new Task(() => Promise.reject(new Error('boom'))))
+      await _.bracket(acquire, use, release)
+        .run(1)
+        .then(() => assert.fail('should reject'), e => assert.strictEqual(e.message, 'boom'))
+      assert.deepStrictEqual(log, ['release 10'])
+    })
+
+    it('should report release errors', async () => {
+      const use = (n: number) => _.stateTaskEither.of<number, string, number>(n)
+      const ma = _.bracket(acquire, use, () => _.fromLeft('release error'))
+      assert.deepStrictEqual(await ma.run(1), left('release error'))
+    })
+  })
+
+  describe('caching', () => {
+    const counter = () => {
+      let calls = 0
+      return _.gets<number, string, number>(s => s).chain(s =>
+        _.fromTask<number, string, number>(new Task(() => Promise.resolve(++calls))).chain(n =>
+          _.put<string, number>(s + n).map(() => n)
+        )
+      )
+    }
+
+    it('memoize', async () => {
+      const ma = _.memoize(counter())
+      assert.deepStrictEqual(await Promise.all([ma.run(10), ma.run(10)]), [right([1, 11]), right([1, 11])])
+      assert.deepStrictEqual(await ma.run(20), right([2, 22]))
+      assert.deepStrictEqual(await ma.run(10), right([1, 11]))
+    })
+
+    it('cached', async () => {
+      const clock = getTestClock()
+      const ma = _.cached({ ttl: 100, clock })(counter())
+      assert.deepStrictEqual(await ma.run(10), right([1, 11]))
+      clock.advance(100).run()
+      assert.deepStrictEqual(await ma.run(10), right([2, 12]))
+    })
+
+    it('cachedBy', async () => {
+      let calls = 0
+      const ma = _.gets<{ id: number }, string, number>(s => s.id).chain(id =>
+        _.fromTask<{ id: number }, string, number>(new Task(() => Promise.resolve(++calls))).chain(n =>
+          id > 0 ? _.stateTaskEither.of(n) : _.fromLeft('not found')
+        )
+      )
+      const f = _.cachedBy((s: { id: number }) => s.id, { cacheFailures: false })(ma)
+      assert.deepStrictEqual(await f.eval({ id: 1 }), right(1))
+      assert.deepStrictEqual(await f.eval({ id: 1 }), right(1))
+      assert.deepStrictEqual(await f.eval({ id: 0 }), left('not found'))
+      assert.deepStrictEqual(await f.eval({ id: 0 }), left('not found'))
+      assert.strictEqual(calls, 3)
+      const g = _.cachedBy((s: { id: number }) => s.id)(ma)
+      assert.deepStrictEqual(await g.eval({ id: 0 }), left('not found'))
+      assert.deepStrictEqual(await g.eval({ id: 0 }), left('not found'))
+      assert.strictEqual(calls, 4)
+    })
+  })
+})
@@ -0,0 +1,391 @@
+/// <reference path="./AbortController.d.ts" />
+import * as assert from 'assert'
+import { left, right } from 'fp-ts/lib/Either'
+import { IO } from 'fp-ts/lib/IO'
+import { none, some } from 'fp-ts/lib/Option'
+import { Task, task } from 'fp-ts/lib/Task'
+import { fromLeft, taskEither } from 'fp-ts/lib/TaskEither'
+import { getTestClock } from '../src/Clock'
+import { pipe } from '../src/pipeable'
+import { limitRetries, retryingTaskOption } from '../src/retry'
+import { delayWith } from '../src/timeout'
+import * as _ from '../src/TaskOption'
+
+describe('TaskOption', () => {
+  it('map', async () => {
+    assert.deepStrictEqual(await _.taskOption.map(_.some(1), n => n * 2).run(), some(2))
+    assert.deepStrictEqual(await _.taskOption.map(_.none, (n: number) => n * 2).run(), none)
+  })
+
+  it('ap', async () => {
+    const double = (n: number) => n * 2
+    assert.deepStrictEqual(await _.taskOption.ap(_.some(double), _.some(1)).run(), some(2))
+    assert.deepStrictEqual(
+      await _.some(double)
+        .ap_(_.some(1))
+        .run(),
+      some(2)
+    )
+    assert.deepStrictEqual(
+      await _.some(double)
+        .ap_(_.none)
+        .run(),
+      none
+    )
+  })
+
+  it('chain', async () => {
+    const f = (n: number) => (n > 0 ? _.some(n * 2) : _.none)
+    assert.deepStrictEqual(await _.taskOption.chain(_.taskOption.of(1), f).run(), some(2))
+    assert.deepStrictEqual(await _.taskOption.chain(_.some(0), f).run(), none)
+  })
+
+  it('fold', async () => {
+    assert.deepStrictEqual(
+      await _.some(1)
+        .fold('none', n => `some(${n})`)
+        .run(),
+      'some(1)'
+    )
+    assert.deepStrictEqual(await _.none.fold('none', n => `some(${n})`).run(), 'none')
+  })
+
+  it('getOrElse', async () => {
+    assert.strictEqual(
+      await _.some(1)
+        .getOrElse(0)
+        .run(),
+      1
+    )
+    assert.strictEqual(
+      await _.fromOption<number>(none)
+        .getOrElse(0)
+        .run(),
+      0
+    )
+  })
+
+  it('fromTask', async () => {
+    assert.deepStrictEqual(await _.fromTask(task.of(1)).run(), some(1))
+  })
+
+  it('tryCatch', async () => {
+    assert.deepStrictEqual(await _.tryCatch(() => Promise.resolve(1)).run(), some(1))
+    assert.deepStrictEqual(await _.tryCatch(() => Promise.reject('error')).run(), none)
+  })
+
+  it('tryCatch (with a signal)', async () => {
+    const controller = new AbortController()
+    assert.deepStrictEqual(await _.tryCatch(() => Promise.resolve(1), controller.signal).run(), some(1))
+    assert.deepStrictEqual(await _.tryCatch(() => Promise.reject('error'), controller.signal).run(), none)
+    const pending = _.tryCatch(
+      signal => new Promise<number>((_, reject) => signal.addEventListener('abort', () => reject('aborted'))),
+      controller.signal
+    ).run()
+    controller.abort()
+    assert.deepStrictEqual(await pending, none)
+  })
+
+  it('tryCatch (with a signal) should be a failure for alt and retryingTaskOption', async () => {
+    const controller = new AbortController()
+    let calls = 0
+    const ma = _.tryCatch(() => {
+      calls++
+      controller.abort()
+      return Promise.resolve(1)
+    }, controller.signal)
+    assert.deepStrictEqual(await ma.alt(_.some(2)).run(), some(2))
+    assert.deepStrictEqual(await retryingTaskOption(limitRetries(2), () => ma).run(), none)
+    assert.strictEqual(calls, 1)
+  })
+
+  it('getOrElseL', async () => {
+    assert.strictEqual(
+      await _.some(1)
+        .getOrElseL(() => 0)
+        .run(),
+      1
+    )
+    assert.strictEqual(
+      await _.fromOption<number>(none)
+        .getOrElseL(() => 0)
+        .run(),
+      0
+    )
+  })
+
+  it('orElse', async () => {
+    assert.deepStrictEqual(
+      await _.some(1)
+        .orElse(() => _.some(2))
+        .run(),
+      some(1)
+    )
+    assert.deepStrictEqual(
+      await _.fromOption<number>(none)
+        .orElse(() => _.some(2))
+        .run(),
+      some(2)
+    )
+  })
+
+  it('alt', async () => {
+    assert.deepStrictEqual(await _.taskOption.alt(_.none, _.some(2)).run(), some(2))
+    assert.deepStrictEqual(await _.taskOption.alt(_.some(1), _.some(2)).run(), some(1))
+  })
+
+  it('zero', async () => {
+    assert.deepStrictEqual(await _.taskOption.zero().run(), none)
+  })
+
+  it('compact', async () => {
+    assert.deepStrictEqual(await _.taskOption.compact(_.some(some(1))).run(), some(1))
+    assert.deepStrictEqual(await _.taskOption.compact(_.some(none)).run(), none)
+  })
+
+  it('separate', async () => {
+    const { left: l1, right: r1 } = _.taskOption.separate(_.some(left<string, number>('a')))
+    assert.deepStrictEqual([await l1.run(), await r1.run()], [some('a'), none])
+    const { left: l2, right: r2 } = _.taskOption.separate(_.some(right<string, number>(1)))
+    assert.deepStrictEqual([await l2.run(), await r2.run()], [none, some(1)])
+  })
+
+  it('partitionMap', async () => {
+    const f = (n: number) => (n > 0 ? right<string, number>(n) : left<string, number>('negative'))
+    const { left: l, right: r } = _.taskOption.partitionMap(_.some(-1), f)
+    assert.deepStrictEqual([await l.run(), await r.run()], [some('negative'), none])
+  })
+
+  it('partition', async () => {
+    const { left: l, right: r } = _.taskOption.partition(_.some(1), n => n > 0)
+    assert.deepStrictEqual([await l.run(), await r.run()], [none, some(1)])
+  })
+
+  it('filter', async () => {
+    assert.deepStrictEqual(await _.taskOption.filter(_.some(1), n => n > 0).run(), some(1))
+    assert.deepStrictEqual(await _.taskOption.filter(_.some(-1), n => n > 0).run(), none)
+  })
+
+  it('filterMap', async () => {
+    const f = (n: number) => (n > 0 ? some(n * 2) : none)
+    assert.deepStrictEqual(await _.taskOption.filterMap(_.some(1), f).run(), some(2))
+    assert.deepStrictEqual(await _.taskOption.filterMap(_.some(-1), f).run(), none)
+  })
+
+  it('fromNullable', async () => {
+    assert.deepStrictEqual(await _.fromNullable(1).run(), some(1))
+    assert.deepStrictEqual(await _.fromNullable(null).run(), none)
+    assert.deepStrictEqual(await _.fromNullable(undefined).run(), none)
+  })
+
+  it('fromPredicate', async () => {
+    const f = _.fromPredicate((n: number) => n > 0)
+    assert.deepStrictEqual(await f(1).run(), some(1))
+    assert.deepStrictEqual(await f(-1).run(), none)
+  })
+
+  it('fromIO', async () => {
+    assert.deepStrictEqual(await _.taskOption.fromIO(new IO(() => 1)).run(), some(1))
+  })
+
+  it('fromTaskEither', async () => {
+    assert.deepStrictEqual(await _.fromTaskEither(taskEither.of(1)).run(), some(1))
+    assert.deepStrictEqual(await _.fromTaskEither(fromLeft('error')).run(), none)
+  })
+
+  it('toTaskEither', async () => {
+    assert.deepStrictEqual(await _.toTaskEither(() => 'error')(_.some(1)).run(), right(1))
+    assert.deepStrictEqual(await _.toTaskEither(() => 'error')(_.none).run(), left('error'))
+  })
+
+  it('should run ap in parallel', async () => {
+    const log: Array<string> = []
+    const append = <A>(message: string, a: A) =>
+      _.fromTask(
+        new Task(() => {
+          log.push(`start ${message}`)
+          return task.of(a).run()
+        })
+      )
+    const double = (n: number) => n * 2
+    const fab = delayWith(getTestClock())(_.taskOption)(10)(append('fab', double))
+    assert.deepStrictEqual(await _.taskOption.ap(fab, append('fa', 1)).run(), some(2))
+    assert.deepStrictEqual(await _.taskOption.ap(fab, _.none).run(), none)
+    assert.deepStrictEqual(log.slice(0, 2), ['start fa', 'start fab'])
+    log.length = 0
+    assert.deepStrictEqual(await _.taskOptionPar.ap(fab, append('fa', 1)).run(), some(2))
+    assert.deepStrictEqual(log, ['start fa', 'start fab'])
+  })
+
+  it('taskOptionSeq', async () => {
+    const log: Array<string> = []
+    const append = <A>(message: string, a: A) =>
+      _.fromIO(
+        new IO(() => {
+          log.push(message)
+          return a
+        })
+      )
+    const double = (n: number) => n * 2
+    const fab = delayWith(getTestClock())(_.taskOption)(10)(append('fab', double))
+    assert.deepStrictEqual(await _.taskOptionSeq.ap(fab, append('fa', 1)).run(), some(2))
+    assert.deepStrictEqual(log, ['fab', 'fa'])
+    log.length = 0
+    assert.deepStrictEqual(await _.taskOptionSeq.ap(_.none, append('fa', 1)).run(), none)
+    assert.deepStrictEqual(log, [])
+  })
+
+  it('pipeables', async () => {
+    const double = (n: number) => n * 2
+    const positive = (n: number) => n > 0
+    assert.deepStrictEqual(
+      await pipe(
+        _.some(1),
+        _.map(double),
+        _.chain(n => _.some(n + 1)),
+        _.getOrElse(0)
+      ).run(),
+      3
+    )
+    assert.deepStrictEqual(await _.ap(_.some(1))(_.some(double)).run(), some(2))
+    assert.deepStrictEqual(await _.flatten(_.some(_.some(1))).run(), some(1))
+    assert.deepStrictEqual(
+      await pipe(
+        _.zero<number>(),
+        _.alt(_.some(1))
+      ).run(),
+      some(1)
+    )
+    assert.deepStrictEqual(
+      await pipe(
+        _.zero<number>(),
+        _.orElse(() => _.some(1))
+      ).run(),
+      some(1)
+    )
+    assert.deepStrictEqual(
+      await pipe(
+        _.some(1),
+        _.fold('none', String)
+      ).run(),
+      '1'
+    )
+    assert.deepStrictEqual(
+      await pipe(
+        _.zero<number>(),
+        _.getOrElseL(() => 0)
+      ).run(),
+      0
+    )
+    assert.deepStrictEqual(await _.compact(_.some(some(1))).run(), some(1))
+    assert.deepStrictEqual(await _.separate(_.some(right<string, number>(1))).right.run(), some(1))
+    assert.deepStrictEqual(
+      await pipe(
+        _.some(-1),
+        _.filter(positive)
+      ).run(),
+      none
+    )
+    assert.deepStrictEqual(
+      await pipe(
+        _.some(1),
+        _.filterMap(n => some(double(n)))
+      ).run(),
+      some(2)
+    )
+    assert.deepStrictEqual(
+      await pipe(
+        _.some(1),
+        _.partition(positive)
+      ).right.run(),
+      some(1)
+    )
+    const f = (n: number) => (positive(n) ? right<string, number>(n) : left<string, number>('negative'))
+    assert.deepStrictEqual(
+      await pipe(
+        _.some(-1),
+        _.partitionMap(f)
+      ).left.run(),
+      some('negative')
+    )
+  })
+
+  describe('bracket', () => {
+    let log: Array<string> = []
+    const acquire = _.fromIO(new IO(() => log.push('acquire')))
+    const release = () => _.fromIO(new IO(() => log.push('release')).map(() => undefined))
+
+    beforeEach(() => {
+      log = []
+    })
+
+    it('should release after a success', async () => {
+      assert.deepStrictEqual(await _.bracket(acquire, n => _.some(n * 2), release).run(), some(2))
+      assert.deepStrictEqual(log, ['acquire', 'release'])
+    })
+
+    it('should release after a none', async () => {
+      assert.deepStrictEqual(await _.bracket(acquire, () => _.zero<number>(), release).run(), none)
+      assert.deepStrictEqual(log, ['acquire', 'release'])
+    })
+
+    it('should release after a rejection', async () => {
+      const use = (): _.TaskOption<number> => {
+        throw new Error('boom')
+      }
+      await _.bracket(acquire, use, release)
+        .run()
+        .then(() => assert.fail('should reject'), e => assert.strictEqual(e.message, 'boom'))
+      assert.deepStrictEqual(log, ['acquire', 'release'])
+    })
+
+    it('should report release errors', async () => {
+      assert.deepStrictEqual(await _.bracket(acquire, n => _.some(n), () => _.zero<void>()).run(), none)
+    })
+
+    it('should not release if acquire fails', async () => {
+      assert.deepStrictEqual(await _.bracket(_.zero<number>(), n => _.some(n), release).run(), none)
+      assert.deepStrictEqual(log, [])
+    })
+  })
+
+  describe('caching', () => {
+    const counter = () => {
+      let calls = 0
+      return _.fromTask(new Task(() => Promise.resolve(++calls)))
+    }
+
+    it('memoize', async () => {
+      const ma = _.memoize(counter())
+      assert.deepStrictEqual(await Promise.all([ma.run(), ma.run()]), [some(1), some(1)])
+      assert.deepStrictEqual(await ma.run(), some(1))
+    })
+
+    it('cached', async () => {
+      const clock = getTestClock()
+      const ma = _.cached({ ttl: 100, clock })(counter())
+      assert.deepStrictEqual(await ma.run(), some(1))
+      clock.advance(100).run()
+      assert.deepStrictEqual(await ma.run(), some(2))
+      assert.deepStrictEqual(await ma.run(), some(2))
+    })
+
+    it('cachedBy', async () => {
+      let calls = 0
+      const lookup = (id: number, label: string) =>
+        _.fromTask(new Task(() => Promise.resolve(`${label}${id} (${++calls})`))).filter(() => id > 0)
+      const f = _.cachedBy((id: number, _label: string) => id, { cacheFailures: false })(lookup)
+      assert.deepStrictEqual(await f(1, 'a').run(), some('a1 (1)'))
+      assert.deepStrictEqual(await f(1, 'b').run(), some('a1 (1)'))
+      assert.deepStrictEqual(await f(2, 'a').run(), some('a2 (2)'))
+      assert.deepStrictEqual(await f(0, 'a').run(), none)
+      assert.strictEqual(calls, 3)
+      assert.deepStrictEqual(await f(0, 'a').run(), none)
+      assert.strictEqual(calls, 4)
+      const g = _.cachedBy((id: number, _label: string) => id)(lookup)
+      assert.deepStrictEqual(await g(0, 'a').run(), none)
+      assert.deepStrictEqual(await g(0, 'a').run(), none)
+      assert.strictEqual(calls, 5)
+    })
+  })
+})
@@ -0,0 +1,55 @@
+import * as assert from 'assert'
+import { left, right } from 'fp-ts/lib/Either'
+import { getArraySemigroup } from 'fp-ts/lib/Semigroup'
+import { both, that, this_ } from 'fp-ts/lib/These'
+import * as _ from '../src/TaskThese'
+
+describe('TaskThese', () => {
+  const M = _.getMonad(getArraySemigroup<string>())
+
+  it('map', async () => {
+    assert.deepStrictEqual(await _.taskThese.map(_.both(['a'], 1), n => n * 2).run(), both(['a'], 2))
+  })
+
+  it('bimap', async () => {
+    const f = (e: Array<string>) => e.length
+    const g = (n: number) => n * 2
+    assert.deepStrictEqual(await _.taskThese.bimap(_.both(['a'], 1), f, g).run(), both(1, 2))
+  })
+
+  it('fold', async () => {
+    const fold = (fa: _.TaskThese<Array<string>, number>) =>
+      fa.fold(e => `this(${e})`, n => `that(${n})`, (e, n) => `both(${e}, ${n})`).run()
+    assert.strictEqual(await fold(_.this_(['a'])), 'this(a)')
+    assert.strictEqual(await fold(_.that(1)), 'that(1)')
+    assert.strictEqual(await fold(_.both(['a'], 1)), 'both(a, 1)')
+  })
+
+  it('getMonad', async () => {
+    const double = (n: number) => n * 2
+    assert.deepStrictEqual(await M.map(M.of(1), double).run(), that(2))
+    assert.deepStrictEqual(await M.ap(_.both(['a'], double), _.both(['b'], 1)).run(), both(['a', 'b'], 2))
+    assert.deepStrictEqual(await M.ap(_.that(double), _.this_(['b'])).run(), this_(['b']))
+  })
+
+  it('chain', async () => {
+    const f = (n: number) =>
+      n > 0 ? _.both<Array<string>, number>(['b'], n * 2) : _.this_<Array<string>, number>(['b'])
+    const g = (n: number) => _.that<Array<string>, number>(n * 2)
+    assert.deepStrictEqual(await M.chain(_.this_<Array<string>, number>(['a']), f).run(), this_(['a']))
+    assert.deepStrictEqual(await M.chain(_.that(1), f).run(), both(['b'], 2))
+    assert.deepStrictEqual(await M.chain(_.both(['a'], 1), f).run(), both(['a', 'b'], 2))
+    assert.deepStrictEqual(await M.chain(_.both(['a'], 0), f).run(), this_(['a', 'b']))
+    assert.deepStrictEqual(await M.chain(_.both(['a'], 1), g).run(), both(['a'], 2))
+  })
+
+  it('toTaskEither', async () => {
+    assert.deepStrictEqual(await _.toTaskEither(_.this_('a')).run(), left('a'))
+    assert.deepStrictEqual(await _.toTaskEither(_.that(1)).run(), right(1))
+    assert.deepStrictEqual(await _.toTaskEither(_.both('a', 1)).run(), right(1))
+  })
+
+  it('fromThese', async () => {
+    assert.deepStrictEqual(await _.fromThese(both('a', 1)).run(), both('a', 1))
+  })
+})
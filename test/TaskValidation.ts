@@ -0,0 +1,190 @@
+import * as assert from 'assert'
+import { left, right } from 'fp-ts/lib/Either'
+import { semigroupString } from 'fp-ts/lib/Semigroup'
+import { Task, task } from 'fp-ts/lib/Task'
+import { fromLeft, taskEither } from 'fp-ts/lib/TaskEither'
+import { failure, success } from 'fp-ts/lib/Validation'
+import { pipe } from '../src/pipeable'
+import * as _ from '../src/TaskValidation'
+
+describe('TaskValidation', () => {
+  it('map', async () => {
+    const double = (n: number) => n * 2
+    assert.deepStrictEqual(
+      await _.taskValidation.map(new _.TaskValidation<string, number>(task.of(success(1))), double).value.run(),
+      success(2)
+    )
+    assert.deepStrictEqual(
+      await _.taskValidation.map(new _.TaskValidation<string, number>(task.of(failure('a'))), double).value.run(),
+      failure('a')
+    )
+  })
+
+  it('fold', async () => {
+    const f = (s: string) => `failure(${s})`
+    const g = (n: number) => `success(${n})`
+    assert.strictEqual(await new _.TaskValidation<string, number>(task.of(success(1))).fold(f, g).run(), 'success(1)')
+    assert.strictEqual(await new _.TaskValidation<string, number>(task.of(failure('a'))).fold(f, g).run(), 'failure(a)')
+  })
+
+  it('getApplicative', async () => {
+    const A = _.getApplicative(semigroupString)
+    const double = (n: number) => n * 2
+    assert.deepStrictEqual(await A.ap(A.of(double), A.of(1)).value.run(), success(2))
+    assert.deepStrictEqual(
+      await A.ap(
+        new _.TaskValidation<string, (n: number) => number>(task.of(failure('a'))),
+        new _.TaskValidation<string, number>(task.of(failure('b')))
+      ).value.run(),
+      failure('ab')
+    )
+  })
+
+  it('getApplicative (sequential)', async () => {
+    const log: Array<string> = []
+    const push = (s: string) => _.fromTask<string, string>(task.of(s).map(s => (log.push(s), s)))
+    const A = _.getApplicative(semigroupString, false)
+    const f = (a: string) => (b: string) => a + b
+    assert.deepStrictEqual(await A.ap(A.map(push('a'), f), push('b')).run(), success('ab'))
+    assert.deepStrictEqual(log, ['a', 'b'])
+  })
+
+  it('getAlt', async () => {
+    const A = _.getAlt(semigroupString)
+    assert.deepStrictEqual(await A.alt(_.success(1), _.failure('b')).run(), success(1))
+    assert.deepStrictEqual(await A.alt(_.failure('a'), _.success(2)).run(), success(2))
+    assert.deepStrictEqual(await A.alt(_.failure<string, number>('a'), _.failure('b')).run(), failure('ab'))
+    assert.deepStrictEqual(await A.map(_.success<string, number>(1), n => n * 2).run(), success(2))
+  })
+
+  it('mapFailure', async () => {
+    assert.deepStrictEqual(
+      await _.failure<string, number>('abc')
+        .mapFailure(s => s.length)
+        .run(),
+      failure(3)
+    )
+  })
+
+  it('bimap', async () => {
+    const f = (s: string) => s.length
+    const g = (n: number) => n * 2
+    assert.deepStrictEqual(await _.taskValidation.bimap(_.success<string, number>(1), f, g).run(), success(2))
+    assert.deepStrictEqual(await _.taskValidation.bimap(_.failure<string, number>('abc'), f, g).run(), failure(3))
+  })
+
+  it('chainEither', async () => {
+    const f = (n: number) => (n > 0 ? _.success<string, number>(n * 2) : _.failure<string, number>('b'))
+    assert.deepStrictEqual(
+      await _.success<string, number>(1)
+        .chainEither(f)
+        .run(),
+      success(2)
+    )
+    assert.deepStrictEqual(
+      await _.success<string, number>(0)
+        .chainEither(f)
+        .run(),
+      failure('b')
+    )
+    assert.deepStrictEqual(
+      await _.failure<string, number>('a')
+        .chainEither(f)
+        .run(),
+      failure('a')
+    )
+  })
+
+  it('fromValidation', async () => {
+    assert.deepStrictEqual(await _.fromValidation(success(1)).run(), success(1))
+  })
+
+  it('fromTaskEither', async () => {
+    assert.deepStrictEqual(await _.fromTaskEither(taskEither.of(1)).run(), success(1))
+    assert.deepStrictEqual(await _.fromTaskEither(fromLeft('a')).run(), failure('a'))
+  })
+
+  it('toTaskEither', async () => {
+    assert.deepStrictEqual(await _.toTaskEither(_.success(1)).run(), right(1))
+    assert.deepStrictEqual(await _.toTaskEither(_.failure('a')).run(), left('a'))
+  })
+
+  it('tryCatch', async () => {
+    const onrejected = (reason: unknown) => String(reason)
+    assert.deepStrictEqual(await _.tryCatch(() => Promise.resolve(1), onrejected).run(), success(1))
+    assert.deepStrictEqual(await _.tryCatch(() => Promise.reject('a'), onrejected).run(), failure('a'))
+    const f = (): Promise<number> => {
+      throw 'b'
+    }
+    assert.deepStrictEqual(await _.tryCatch(f, onrejected).run(), failure('b'))
+  })
+
+  it('pipeables', async () => {
+    const double = (n: number) => n * 2
+    const ma = pipe(
+      _.success<string, number>(1),
+      _.map(double),
+      _.chainEither(n => _.success<string, number>(n + 1))
+    )
+    assert.deepStrictEqual(await ma.run(), success(3))
+    const error = _.failure<string, number>('error')
+    assert.deepStrictEqual(
+      await pipe(
+        error,
+        _.mapFailure(e => e.length)
+      ).run(),
+      failure(5)
+    )
+    assert.deepStrictEqual(
+      await pipe(
+        error,
+        _.bimap(e => e.length, double)
+      ).run(),
+      failure(5)
+    )
+    assert.strictEqual(
+      await pipe(
+        error,
+        _.fold(e => e, String)
+      ).run(),
+      'error'
+    )
+  })
+
+  describe('bracket', () => {
+    let log: Array<string> = []
+    const acquire = _.success<string, number>(1)
+    const release = () =>
+      _.fromTask<string, void>(new Task(() => Promise.resolve(log.push('release'))).map(() => undefined))
+
+    beforeEach(() => {
+      log = []
+    })
+
+    it('should release after a success', async () => {
+      assert.deepStrictEqual(await _.bracket(acquire, n => _.success(n * 2), release).run(), success(2))
+      assert.deepStrictEqual(log, ['release'])
+    })
+
+    it('should release after a failure', async () => {
+      assert.deepStrictEqual(await _.bracket(acquire, () => _.failure('error'), release).run(), failure('error'))
+      assert.deepStrictEqual(log, ['release'])
+    })
+
+    it('should release after a rejection', async () => {
+      const use = () =>
+        _.tryCatch<string, number>(() => Promise.resolve(1), String).map(() => {
+          throw new Error('boom')
+        })
+      await _.bracket(acquire, use, release)
+        .run()
+        .then(() => assert.fail('should reject'), e => assert.strictEqual(e.message, 'boom'))
+      assert.deepStrictEqual(log, ['release'])
+    })
+
+    it('should report release errors', async () => {
+      const ma = _.bracket(acquire, n => _.success(n), () => _.failure('release error'))
+      assert.deepStrictEqual(await ma.run(), failure('release error'))
+    })
+  })
+})
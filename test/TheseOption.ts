@@ -0,0 +1,84 @@
+import * as assert from 'assert'
+import { monoidSum } from 'fp-ts/lib/Monoid'
+import { none, some } from 'fp-ts/lib/Option'
+import { getArraySemigroup } from 'fp-ts/lib/Semigroup'
+import { both, getMonad as getTheseMonad, that, this_ } from 'fp-ts/lib/These'
+import * as _ from '../src/TheseOption'
+
+describe('TheseOption', () => {
+  const S = getArraySemigroup<string>()
+  const M = _.getMonad(S)
+
+  it('getMonad', () => {
+    const double = (n: number) => n * 2
+    const f = (n: number) => _.warn(['b'], n * 2)
+    assert.deepStrictEqual(M.map(_.warn(['a'], 1), double).value, both(['a'], some(2)))
+    assert.deepStrictEqual(M.ap(M.of(double), _.warn(['a'], 1)).value, both(['a'], some(2)))
+    assert.deepStrictEqual(M.chain(_.warn(['a'], 1), f).value, both(['a', 'b'], some(2)))
+    assert.deepStrictEqual(_.getMonad(getTheseMonad(S)).chain(_.warn(['a'], 1), f).value, both(['a', 'b'], some(2)))
+  })
+
+  it('map', () => {
+    assert.deepStrictEqual(_.theseOption.map(_.warn(['a'], 1), n => n * 2).value, both(['a'], some(2)))
+    assert.deepStrictEqual(_.warn(['a'], 1).map(n => n * 2).value, both(['a'], some(2)))
+  })
+
+  it('ap', () => {
+    const double = (n: number) => n * 2
+    assert.deepStrictEqual(_.warn(['b'], 1).ap(S, _.warn(['a'], double)).value, both(['a', 'b'], some(2)))
+    assert.deepStrictEqual(_.warn(['a'], double).ap_(S, _.warn(['b'], 1)).value, both(['a', 'b'], some(2)))
+  })
+
+  it('chain', () => {
+    assert.deepStrictEqual(_.warn(['a'], 1).chain(S, n => _.warn(['b'], n * 2)).value, both(['a', 'b'], some(2)))
+    assert.deepStrictEqual(
+      _.fromOption<Array<string>, number>(none).chain(S, n => _.warn(['b'], n * 2)).value,
+      that(none)
+    )
+  })
+
+  it('bimap', () => {
+    const f = (e: Array<string>) => e.length
+    const g = (n: number) => n * 2
+    assert.deepStrictEqual(_.theseOption.bimap(_.warn(['a'], 1), f, g).value, both(1, some(2)))
+  })
+
+  it('fold', () => {
+    const f = (n: number) => `some(${n})`
+    assert.deepStrictEqual(_.warn(['a'], 1).fold('none', f), both(['a'], 'some(1)'))
+    assert.deepStrictEqual(_.none.fold('none', f), that('none'))
+  })
+
+  it('getOrElse', () => {
+    assert.deepStrictEqual(_.warn(['a'], 1).getOrElse(0), both(['a'], 1))
+    assert.deepStrictEqual(_.fromOption<Array<string>, number>(none).getOrElse(0), that(0))
+  })
+
+  it('reduce', () => {
+    const f = (b: number, a: number) => b + a
+    assert.strictEqual(_.theseOption.reduce(_.warn(['a'], 1), 10, f), 11)
+    assert.strictEqual(_.theseOption.reduce(_.none, 10, f), 10)
+    assert.strictEqual(_.theseOption.reduce(_.getFromThese(this_<Array<string>, number>(['a'])), 10, f), 10)
+  })
+
+  it('foldMap', () => {
+    assert.strictEqual(_.theseOption.foldMap(monoidSum)(_.warn(['a'], 1), n => n * 2), 2)
+  })
+
+  it('foldr', () => {
+    assert.strictEqual(_.theseOption.foldr(_.warn(['a'], 1), 10, (a, b) => a - b), -9)
+  })
+
+  it('getFold', () => {
+    const fold = _.getFold(getTheseMonad(S))
+    assert.deepStrictEqual(fold('none', n => `some(${n})`, _.warn(['a'], 1)), both(['a'], 'some(1)'))
+  })
+
+  it('getSome', () => {
+    assert.deepStrictEqual(_.getSome(M)(1).value, that(some(1)))
+  })
+
+  it('fromOption', () => {
+    assert.deepStrictEqual(_.fromOption(some(1)).value, that(some(1)))
+  })
+})
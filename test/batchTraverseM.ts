@@ -1,7 +1,16 @@
+/// <reference path="./AbortController.d.ts" />
 import * as assert from 'assert'
 import { chunksOf, range } from 'fp-ts/lib/Array'
-import { fromIO, fromLeft, taskEither } from 'fp-ts/lib/TaskEither'
-import { batchTraverseM, batchSequenceM } from '../src/batchTraverseM'
+import { TaskEither, fromIO, fromLeft, taskEither } from 'fp-ts/lib/TaskEither'
+import {
+  batchTraverseM,
+  batchSequenceM,
+  batchTraverseWithIndexM,
+  batchTraverseRecordM,
+  batchSequenceRecordM,
+  batchTraverseMapM,
+  batchSequenceMapM
+} from '../src/batchTraverseM'
 import { IO } from 'fp-ts/lib/IO'
 import { right, left } from 'fp-ts/lib/Either'
 
@@ -33,6 +42,50 @@ describe('batchTraverseM', () => {
     assert.deepStrictEqual(actual, left('Error: 3'))
     assert.deepStrictEqual(log, ['Executing 1', 'Executing 2', 'Executing 3', 'Executing 4'])
   })
+
+  describe('cancellation', () => {
+    const traverse = (controller: AbortController, log: Array<string>) => (
+      onCancel?: (bs: Array<number>) => TaskEither<string, Array<number>>
+    ) =>
+      batchTraverseM(taskEither)(
+        chunksOf(range(1, 10), 2),
+        a =>
+          fromIO<string, number>(
+            new IO(() => {
+              log.push(`Executing ${a}`)
+              if (a === 3) {
+                controller.abort()
+              }
+              return a
+            })
+          ),
+        controller.signal,
+        onCancel
+      )
+
+    it('should return the results of the completed chunks by default', async () => {
+      const log: Array<string> = []
+      assert.deepStrictEqual(await traverse(new AbortController(), log)().run(), right([1, 2, 3, 4]))
+      assert.deepStrictEqual(log, ['Executing 1', 'Executing 2', 'Executing 3', 'Executing 4'])
+    })
+
+    it('should short-circuit with onCancel', async () => {
+      const log: Array<string> = []
+      assert.deepStrictEqual(
+        await traverse(new AbortController(), log)(() => fromLeft('cancelled')).run(),
+        left('cancelled')
+      )
+      assert.deepStrictEqual(log, ['Executing 1', 'Executing 2', 'Executing 3', 'Executing 4'])
+    })
+
+    it('should not start any chunk if the signal is already aborted', async () => {
+      const controller = new AbortController()
+      const log: Array<string> = []
+      controller.abort()
+      assert.deepStrictEqual(await traverse(controller, log)(() => fromLeft('cancelled')).run(), left('cancelled'))
+      assert.deepStrictEqual(log, [])
+    })
+  })
 })
 
 describe('batchSequenceM', () => {
@@ -53,3 +106,58 @@ describe('batchSequenceM', () => {
     assert.deepStrictEqual(log, ['Executing 1', 'Executing 2', 'Executing 3', 'Executing 4'])
   })
 })
+
+describe('batchTraverseWithIndexM', () => {
+  it('should run all the computations in chunks', async () => {
+    const log: Array<string> = []
+    const actual = await batchTraverseWithIndexM(taskEither)(2, ['a', 'b', 'c'], (i, a) =>
+      fromIO(new IO(() => log.push(`Executing ${i}: ${a}`))).map(() => `${i}${a}`)
+    ).run()
+    assert.deepStrictEqual(actual, right(['0a', '1b', '2c']))
+    assert.deepStrictEqual(log, ['Executing 0: a', 'Executing 1: b', 'Executing 2: c'])
+  })
+})
+
+describe('batchTraverseRecordM', () => {
+  it('should return a record with the same keys', async () => {
+    const actual = await batchTraverseRecordM(taskEither)(2, { a: 1, b: 2, c: 3 }, (k, n) =>
+      taskEither.of(`${k}${n}`)
+    ).run()
+    assert.deepStrictEqual(actual, right({ a: 'a1', b: 'b2', c: 'c3' }))
+  })
+
+  it('should bail out when an error occours', async () => {
+    const log: Array<string> = []
+    const actual = await batchTraverseRecordM(taskEither)(2, { a: 1, b: 2, c: 3, d: 4, e: 5 }, (k, n) =>
+      fromIO(new IO(() => log.push(`Executing ${k}`))).chain(() =>
+        n === 3 ? fromLeft(`Error: ${k}`) : taskEither.of(n)
+      )
+    ).run()
+    assert.deepStrictEqual(actual, left('Error: c'))
+    assert.deepStrictEqual(log, ['Executing a', 'Executing b', 'Executing c', 'Executing d'])
+  })
+})
+
+describe('batchSequenceRecordM', () => {
+  it('should return a record with the same keys', async () => {
+    const actual = await batchSequenceRecordM(taskEither)(2, { a: taskEither.of(1), b: taskEither.of(2) }).run()
+    assert.deepStrictEqual(actual, right({ a: 1, b: 2 }))
+  })
+})
+
+describe('batchTraverseMapM', () => {
+  it('should return a map with the same keys', async () => {
+    const input = new Map([[3, 'c'], [1, 'a'], [2, 'b']])
+    const actual = await batchTraverseMapM(taskEither)(2, input, (k, a) => taskEither.of(`${k}${a}`)).run()
+    assert.deepStrictEqual(actual, right(new Map([[3, '3c'], [1, '1a'], [2, '2b']])))
+    assert.deepStrictEqual(actual.map(m => Array.from(m.keys())), right([3, 1, 2]))
+  })
+})
+
+describe('batchSequenceMapM', () => {
+  it('should bail out when an error occours', async () => {
+    const input = new Map([['a', taskEither.of<string, number>(1)], ['b', fromLeft<string, number>('Error: b')]])
+    const actual = await batchSequenceMapM(taskEither)(1, input).run()
+    assert.deepStrictEqual(actual, left('Error: b'))
+  })
+})
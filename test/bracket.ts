@@ -0,0 +1,31 @@
+import * as assert from 'assert'
+import { bracketPromise } from '../src/bracket'
+
+describe('bracket', () => {
+  const rejectWith = (reason: string) => () => Promise.reject(new Error(reason))
+
+  it('should release with the result of use', async () => {
+    const release = (n: number) => Promise.resolve(n * 2)
+    assert.strictEqual(await bracketPromise(() => Promise.resolve(1), release, rejectWith('unexpected')), 2)
+  })
+
+  it('should release when use throws', async () => {
+    const log: Array<string> = []
+    const use = (): Promise<number> => {
+      throw new Error('use')
+    }
+    const onRejection = () => Promise.resolve(log.push('released'))
+    await bracketPromise(use, rejectWith('unexpected'), onRejection).then(
+      () => assert.fail('should reject'),
+      e => assert.strictEqual(e.message, 'use')
+    )
+    assert.deepStrictEqual(log, ['released'])
+  })
+
+  it('should keep the reason of use when the release rejects too', async () => {
+    await bracketPromise(rejectWith('use'), rejectWith('unexpected'), rejectWith('release')).then(
+      () => assert.fail('should reject'),
+      e => assert.strictEqual(e.message, 'use')
+    )
+  })
+})
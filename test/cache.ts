@@ -0,0 +1,73 @@
+import * as assert from 'assert'
+import { getCache } from '../src/cache'
+import { getTestClock } from '../src/Clock'
+
+describe('cache', () => {
+  const counter = () => {
+    let calls = 0
+    return () => Promise.resolve(++calls)
+  }
+
+  it('should share the in-flight result', async () => {
+    const cache = getCache<string, number>({}, () => false)
+    const load = counter()
+    assert.deepStrictEqual(await Promise.all([cache.get('a', load), cache.get('a', load)]), [1, 1])
+    assert.strictEqual(await cache.get('a', load), 1)
+  })
+
+  it('should cache by key', async () => {
+    const cache = getCache<string, number>({}, () => false)
+    const load = counter()
+    assert.strictEqual(await cache.get('a', load), 1)
+    assert.strictEqual(await cache.get('b', load), 2)
+    assert.strictEqual(await cache.get('a', load), 1)
+  })
+
+  it('should expire the results', async () => {
+    const clock = getTestClock()
+    const cache = getCache<string, number>({ ttl: 100, clock }, () => false)
+    const load = counter()
+    assert.strictEqual(await cache.get('a', load), 1)
+    clock.advance(99).run()
+    assert.strictEqual(await cache.get('a', load), 1)
+    clock.advance(1).run()
+    assert.strictEqual(await cache.get('a', load), 2)
+  })
+
+  it('should not cache failures if cacheFailures is false', async () => {
+    const isFailure = (n: number) => n % 2 === 1
+    const load = counter()
+    const cache = getCache<string, number>({ cacheFailures: false }, isFailure)
+    assert.strictEqual(await cache.get('a', load), 1)
+    assert.strictEqual(await cache.get('a', load), 2)
+    assert.strictEqual(await cache.get('a', load), 2)
+    const withFailures = getCache<string, number>({}, isFailure)
+    assert.strictEqual(await withFailures.get('a', load), 3)
+    assert.strictEqual(await withFailures.get('a', load), 3)
+  })
+
+  it('should not cache rejections', async () => {
+    const cache = getCache<string, number>({}, () => false)
+    await cache
+      .get('a', () => Promise.reject(new Error('boom')))
+      .then(() => assert.fail('should reject'), e => assert.strictEqual(e.message, 'boom'))
+    await cache
+      .get('a', () => {
+        throw new Error('boom')
+      })
+      .then(() => assert.fail('should reject'), e => assert.strictEqual(e.message, 'boom'))
+    assert.strictEqual(await cache.get('a', () => Promise.resolve(1)), 1)
+  })
+
+  it('should not evict a newer result', async () => {
+    const clock = getTestClock()
+    const cache = getCache<string, number>({ ttl: 100, clock }, () => false)
+    let reject: (e: Error) => void = () => undefined
+    const first = cache.get('a', () => new Promise<number>((_, r) => (reject = r)))
+    clock.advance(100).run()
+    assert.strictEqual(await cache.get('a', () => Promise.resolve(2)), 2)
+    reject(new Error('boom'))
+    await first.catch(() => undefined)
+    assert.strictEqual(await cache.get('a', () => Promise.resolve(3)), 2)
+  })
+})
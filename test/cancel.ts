@@ -0,0 +1,57 @@
+/// <reference path="./AbortController.d.ts" />
+import * as assert from 'assert'
+import { Either, right } from 'fp-ts/lib/Either'
+import { Cancelled, cancellable, isCancelled } from '../src/cancel'
+
+const assertCancelled = async (p: Promise<Either<Cancelled, unknown>>) => {
+  const e = await p
+  assert.ok(e.isLeft() && isCancelled(e.value))
+}
+
+describe('cancel', () => {
+  it('isCancelled', () => {
+    assert.strictEqual(isCancelled(new Cancelled()), true)
+    assert.strictEqual(isCancelled(new Error('boom')), false)
+  })
+
+  describe('cancellable', () => {
+    it('should return the result if the signal is not aborted', async () => {
+      const controller = new AbortController()
+      assert.deepStrictEqual(await cancellable(() => Promise.resolve(1), controller.signal), right(1))
+      await cancellable(() => Promise.reject(new Error('boom')), controller.signal).then(
+        () => assert.fail('should reject'),
+        e => assert.strictEqual(e.message, 'boom')
+      )
+    })
+
+    it('should not run the computation if the signal is already aborted', async () => {
+      const controller = new AbortController()
+      controller.abort()
+      let started = false
+      await assertCancelled(
+        cancellable(() => {
+          started = true
+          return Promise.resolve(1)
+        }, controller.signal)
+      )
+      assert.strictEqual(started, false)
+    })
+
+    it('should resolve as soon as the signal is aborted', async () => {
+      const controller = new AbortController()
+      const pending = cancellable(() => new Promise<number>(() => undefined), controller.signal)
+      controller.abort()
+      await assertCancelled(pending)
+    })
+
+    it('should turn a failure following the abort into a cancellation', async () => {
+      const controller = new AbortController()
+      const pending = cancellable(
+        () => new Promise<number>((_, reject) => controller.signal.addEventListener('abort', () => reject('aborted'))),
+        controller.signal
+      )
+      controller.abort()
+      await assertCancelled(pending)
+    })
+  })
+})
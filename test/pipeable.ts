@@ -0,0 +1,58 @@
+import * as assert from 'assert'
+import { flow, pipe } from '../src/pipeable'
+
+describe('pipeable', () => {
+  const f = (n: number) => n + 1
+  const g = (n: number) => n * 2
+
+  it('pipe', () => {
+    assert.strictEqual(pipe(2), 2)
+    assert.strictEqual(
+      pipe(
+        2,
+        f
+      ),
+      3
+    )
+    assert.strictEqual(
+      pipe(
+        2,
+        f,
+        g
+      ),
+      6
+    )
+    assert.strictEqual(
+      pipe(
+        2,
+        f,
+        g,
+        f,
+        g,
+        f,
+        g,
+        f,
+        g
+      ),
+      62
+    )
+  })
+
+  it('flow', () => {
+    const h = (a: number, b: number) => a + b
+    assert.strictEqual(flow(h)(1, 2), 3)
+    assert.strictEqual(
+      flow(
+        h,
+        f,
+        g,
+        f,
+        g,
+        f,
+        g,
+        f
+      )(1, 2),
+      39
+    )
+  })
+})
@@ -0,0 +1,148 @@
+import * as assert from 'assert'
+import { left, right } from 'fp-ts/lib/Either'
+import { IO } from 'fp-ts/lib/IO'
+import { none, some } from 'fp-ts/lib/Option'
+import { task } from 'fp-ts/lib/Task'
+import { fromLeft, taskEither } from 'fp-ts/lib/TaskEither'
+import { failure, success } from 'fp-ts/lib/Validation'
+import { getTestClock } from '../src/Clock'
+import * as _ from '../src/retry'
+import { StateTaskEither, fromTaskEither, gets, modify } from '../src/StateTaskEither'
+import * as taskOption from '../src/TaskOption'
+import { TaskValidation } from '../src/TaskValidation'
+
+const delays = (policy: _.RetryPolicy, n: number): Array<number> => {
+  const out: Array<number> = []
+  let status = _.defaultRetryStatus
+  for (let i = 0; i < n; i++) {
+    status = _.applyPolicy(policy, status)
+    out.push(status.previousDelay.getOrElse(-1))
+  }
+  return out
+}
+
+describe('retry', () => {
+  describe('policies', () => {
+    it('constantDelay', () => {
+      assert.deepStrictEqual(delays(_.constantDelay(10), 3), [10, 10, 10])
+    })
+
+    it('linearBackoff', () => {
+      assert.deepStrictEqual(delays(_.linearBackoff(10), 3), [10, 20, 30])
+    })
+
+    it('exponentialBackoff', () => {
+      assert.deepStrictEqual(delays(_.exponentialBackoff(10), 4), [10, 20, 40, 80])
+    })
+
+    it('limitRetries', () => {
+      assert.deepStrictEqual(delays(_.limitRetries(2), 4), [0, 0, -1, -1])
+    })
+
+    it('capDelay', () => {
+      assert.deepStrictEqual(delays(_.capDelay(30, _.exponentialBackoff(10)), 4), [10, 20, 30, 30])
+    })
+
+    it('jitter', () => {
+      assert.deepStrictEqual(delays(_.jitter(_.constantDelay(10), new IO(() => 0.5)), 2), [5, 5])
+      delays(_.jitter(_.constantDelay(10)), 10).forEach(delay => assert.ok(delay >= 0 && delay <= 10))
+    })
+
+    it('monoidRetryPolicy', () => {
+      const policy = _.monoidRetryPolicy.concat(_.exponentialBackoff(10), _.limitRetries(3))
+      assert.deepStrictEqual(delays(policy, 4), [10, 20, 40, -1])
+      assert.deepStrictEqual(delays(_.monoidRetryPolicy.concat(policy, _.monoidRetryPolicy.empty), 4), [10, 20, 40, -1])
+    })
+
+    it('applyPolicy', () => {
+      const status = _.applyPolicy(_.linearBackoff(10), _.applyPolicy(_.linearBackoff(10), _.defaultRetryStatus))
+      assert.deepStrictEqual(status, { iterNumber: 2, cumulativeDelay: 30, previousDelay: some(20) })
+      assert.deepStrictEqual(_.applyPolicy(_.limitRetries(0), status), {
+        iterNumber: 3,
+        cumulativeDelay: 30,
+        previousDelay: none
+      })
+    })
+  })
+
+  describe('retrying', () => {
+    it('should retry while the check holds', async () => {
+      const statuses: Array<_.RetryStatus> = []
+      const actual = await _.retrying(task)(
+        _.limitRetries(5),
+        status => {
+          statuses.push(status)
+          return task.of(status.iterNumber)
+        },
+        n => n < 2
+      ).run()
+      assert.strictEqual(actual, 2)
+      assert.deepStrictEqual(statuses.map(status => status.iterNumber), [0, 1, 2])
+    })
+
+    it('should return the last result when the policy gives up', async () => {
+      const actual = await _.retrying(taskEither)(
+        _.limitRetries(2),
+        status => taskEither.of(status.iterNumber),
+        () => true
+      ).run()
+      assert.deepStrictEqual(actual, right(2))
+    })
+  })
+
+  describe('retryingWith', () => {
+    it('should wait using the given clock', async () => {
+      const clock = getTestClock()
+      const policy = _.monoidRetryPolicy.concat(_.exponentialBackoff(10), _.limitRetries(3))
+      const actual = await _.retryingWith(clock)(task)(policy, status => task.of(status), () => true).run()
+      assert.deepStrictEqual(actual, { iterNumber: 3, cumulativeDelay: 70, previousDelay: some(40) })
+      assert.strictEqual(clock.now.run(), 70)
+    })
+  })
+
+  describe('retryingTaskOption', () => {
+    it('should retry while the result is None', async () => {
+      const clock = getTestClock()
+      const action = (status: _.RetryStatus) => (status.iterNumber < 2 ? taskOption.none : taskOption.some('a'))
+      assert.deepStrictEqual(await _.retryingTaskOptionWith(clock)(_.constantDelay(10), action).run(), some('a'))
+      assert.strictEqual(clock.now.run(), 20)
+      assert.deepStrictEqual(await _.retryingTaskOption(_.limitRetries(1), () => taskOption.none).run(), none)
+    })
+  })
+
+  describe('retryingTaskValidation', () => {
+    it('should retry failures satisfying the predicate', async () => {
+      const clock = getTestClock()
+      const action = (status: _.RetryStatus) =>
+        new TaskValidation<string, number>(
+          task.of(status.iterNumber < 2 ? failure(status.iterNumber === 0 ? 'retry' : 'fatal') : success(1))
+        )
+      const shouldRetry = (e: string) => e === 'retry'
+      assert.deepStrictEqual(
+        await _.retryingTaskValidationWith(clock)(_.constantDelay(10), action, shouldRetry).value.run(),
+        failure('fatal')
+      )
+      assert.strictEqual(clock.now.run(), 10)
+      assert.deepStrictEqual(await _.retryingTaskValidation(_.limitRetries(5), action).value.run(), success(1))
+    })
+  })
+
+  describe('retryingStateTaskEither', () => {
+    it('should retry errors satisfying the predicate, starting from the initial state', async () => {
+      const clock = getTestClock()
+      const action = (status: _.RetryStatus): StateTaskEither<number, string, number> =>
+        modify<string, number>(s => s + 1).chain(() =>
+          status.iterNumber < 2 ? fromTaskEither(fromLeft('error')) : gets(s => s * 10)
+        )
+      assert.deepStrictEqual(
+        await _.retryingStateTaskEitherWith(clock)(_.constantDelay(10), action).run(1),
+        right([20, 2])
+      )
+      assert.strictEqual(clock.now.run(), 20)
+      assert.deepStrictEqual(
+        await _.retryingStateTaskEither(_.limitRetries(5), action, e => e !== 'error').run(1),
+        left('error')
+      )
+    })
+  })
+})
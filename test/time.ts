@@ -1,6 +1,8 @@
 import * as assert from 'assert'
-import { time } from '../src/time'
+import { time, timeWith } from '../src/time'
+import { getTestClock } from '../src/Clock'
 import * as IO from 'fp-ts/lib/IO'
+import * as TaskEither from 'fp-ts/lib/TaskEither'
 
 describe('time', () => {
   it('should output the elapsed time', () => {
@@ -10,3 +12,12 @@ describe('time', () => {
     assert.strictEqual(typeof elapsed, 'number')
   })
 })
+
+describe('timeWith', () => {
+  it('should measure the elapsed time with the given clock', async () => {
+    const clock = getTestClock(1000)
+    const timeTaskEither = timeWith(clock)(TaskEither.taskEither)
+    const actual = await timeTaskEither(TaskEither.fromIO(clock.advance(42)).map(() => 'done')).run()
+    assert.deepStrictEqual(actual.value, ['done', 42])
+  })
+})
@@ -0,0 +1,205 @@
+import * as assert from 'assert'
+import { left, right } from 'fp-ts/lib/Either'
+import { IO } from 'fp-ts/lib/IO'
+import { none, some } from 'fp-ts/lib/Option'
+import { Task, task } from 'fp-ts/lib/Task'
+import { fromLeft, taskEither } from 'fp-ts/lib/TaskEither'
+import { AbortSignal } from '../src/cancel'
+import { Clock, getTestClock } from '../src/Clock'
+import { StateTaskEither, fromTask, fromTaskEither, modify } from '../src/StateTaskEither'
+import * as taskOption from '../src/TaskOption'
+import {
+  delay,
+  delayWith,
+  race,
+  raceFirstSuccess,
+  stateTaskEitherRace,
+  taskEitherRace,
+  taskOptionRace,
+  taskRace,
+  timeout,
+  timeoutWith
+} from '../src/timeout'
+
+const never: Task<never> = new Task(() => new Promise<never>(() => undefined))
+
+// a clock whose timers never fire
+const stopped: Clock = { now: new IO(() => 0), sleep: () => never }
+
+describe('timeout', () => {
+  describe('timeout', () => {
+    it('TaskOption', async () => {
+      const slow = taskOption.fromTask(never)
+      assert.deepStrictEqual(
+        await timeoutWith(stopped)(taskOptionRace)(20)(taskOption.some(1), taskOption.none).run(),
+        some(1)
+      )
+      assert.deepStrictEqual(await timeoutWith(getTestClock())(taskOptionRace)(20)(slow, taskOption.none).run(), none)
+    })
+
+    it('TaskEither', async () => {
+      const T = timeoutWith(getTestClock())(taskEitherRace)(20)
+      assert.deepStrictEqual(
+        await timeoutWith(stopped)(taskEitherRace)(20)(taskEither.of(1), fromLeft('timeout')).run(),
+        right(1)
+      )
+      assert.deepStrictEqual(await T(fromLeft('error'), fromLeft('timeout')).run(), left('error'))
+      assert.deepStrictEqual(await T(taskEither.fromTask(never), fromLeft('timeout')).run(), left('timeout'))
+    })
+
+    it('StateTaskEither', async () => {
+      const increment = modify<string, number>(n => n + 1)
+      const slow = increment.chain(() => fromTask<number, string, void>(never))
+      assert.deepStrictEqual(
+        await timeoutWith(stopped)(stateTaskEitherRace)(20)(increment, fromTaskEither(fromLeft('timeout'))).run(1),
+        right([undefined, 2])
+      )
+      assert.deepStrictEqual(
+        await timeoutWith(getTestClock())(stateTaskEitherRace)(20)(slow, fromTaskEither(fromLeft('timeout'))).run(1),
+        left('timeout')
+      )
+    })
+
+    it('should use hrClock', async () => {
+      assert.deepStrictEqual(await timeout(taskOptionRace)(10)(taskOption.fromTask(never), taskOption.none).run(), none)
+    })
+
+    it('should clear the timer when the race settles', async () => {
+      const signals: Array<AbortSignal> = []
+      const recording: Clock = {
+        now: new IO(() => 0),
+        sleep: (_, signal) => {
+          signals.push(signal!)
+          return never
+        }
+      }
+      const T = timeoutWith(recording)(taskEitherRace)(20)
+      assert.deepStrictEqual(await T(taskEither.of(1), fromLeft('timeout')).run(), right(1))
+      assert.deepStrictEqual(await T(fromLeft('error'), fromLeft('timeout')).run(), left('error'))
+      assert.deepStrictEqual(signals.map(signal => signal.aborted), [true, true])
+    })
+
+    it('should propagate rejections', async () => {
+      const rejected = new taskOption.TaskOption<number>(new Task(() => Promise.reject(new Error('boom'))))
+      await timeoutWith(stopped)(taskOptionRace)(20)(rejected, taskOption.none)
+        .run()
+        .then(() => assert.fail('should reject'), e => assert.strictEqual(e.message, 'boom'))
+    })
+  })
+
+  describe('delay', () => {
+    it('should wait before running the action', async () => {
+      const clock = getTestClock()
+      const log: Array<number> = []
+      const action = delayWith(clock)(task)(20)(task.fromIO(new IO(() => log.push(clock.now.run()))))
+      assert.deepStrictEqual(log, [])
+      await action.run()
+      assert.deepStrictEqual(log, [20])
+    })
+
+    it('should use hrClock', async () => {
+      const start = Date.now()
+      assert.strictEqual(await delay(task)(20)(task.of('a')).run(), 'a')
+      assert.ok(Date.now() - start >= 15)
+    })
+  })
+
+  describe('race', () => {
+    it('Task', async () => {
+      assert.strictEqual(await race(taskRace)(never, task.of('fast')).run(), 'fast')
+      assert.strictEqual(await raceFirstSuccess(taskRace)(task.of('fast'), never).run(), 'fast')
+    })
+
+    it('TaskEither', async () => {
+      assert.deepStrictEqual(
+        await race(taskEitherRace)(taskEither.fromTask(never), fromLeft('error')).run(),
+        left('error')
+      )
+    })
+
+    it('TaskOption', async () => {
+      assert.deepStrictEqual(await race(taskOptionRace)(taskOption.fromTask(never), taskOption.none).run(), none)
+    })
+
+    it('StateTaskEither', async () => {
+      const slow = modify<string, number>(n => n * 10).chain(() => fromTask<number, string, void>(never))
+      const fast = modify<string, number>(n => n + 1)
+      assert.deepStrictEqual(await race(stateTaskEitherRace)(slow, fast).run(1), right([undefined, 2]))
+    })
+  })
+
+  describe('raceFirstSuccess', () => {
+    const later = delayWith(getTestClock())
+
+    it('TaskOption', async () => {
+      const R = raceFirstSuccess(taskOptionRace)
+      assert.deepStrictEqual(
+        await R(taskOption.none, later(taskOption.taskOption)(20)(taskOption.some(1))).run(),
+        some(1)
+      )
+      assert.deepStrictEqual(await R(taskOption.none, later(taskOption.taskOption)(10)(taskOption.none)).run(), none)
+    })
+
+    it('TaskEither', async () => {
+      const R = raceFirstSuccess(taskEitherRace)
+      const slow = later(taskEither)(20)(fromLeft<string, number>('slow'))
+      assert.deepStrictEqual(await R(fromLeft('fast'), slow).run(), left('slow'))
+      assert.deepStrictEqual(await R(slow, taskEither.of(1)).run(), right(1))
+    })
+
+    it('StateTaskEither', async () => {
+      const R = raceFirstSuccess(stateTaskEitherRace)
+      const failure: StateTaskEither<number, string, void> = modify<string, number>(n => n * 10).chain(() =>
+        fromTaskEither(fromLeft('error'))
+      )
+      const success = later(stateTaskEitherRace)(10)(modify<string, number>(n => n + 1))
+      assert.deepStrictEqual(await R(failure, success).run(1), right([undefined, 2]))
+    })
+
+    it('should wait for a success after a rejection', async () => {
+      const rejected = new taskOption.TaskOption<number>(new Task(() => Promise.reject(new Error('boom'))))
+      const R = raceFirstSuccess(taskOptionRace)
+      assert.deepStrictEqual(await R(rejected, later(taskOption.taskOption)(10)(taskOption.some(1))).run(), some(1))
+      assert.deepStrictEqual(await R(rejected, later(taskOption.taskOption)(10)(taskOption.none)).run(), none)
+      const failed = new Task<string>(() => Promise.reject(new Error('boom')))
+      assert.strictEqual(await raceFirstSuccess(taskRace)(failed, later(task)(10)(task.of('a'))).run(), 'a')
+    })
+
+    it('should reject when the last action to complete rejects', async () => {
+      const rejected = new taskOption.TaskOption<number>(
+        later(task)(10)(new Task(() => Promise.reject(new Error('boom'))))
+      )
+      await raceFirstSuccess(taskOptionRace)(taskOption.none, rejected)
+        .run()
+        .then(() => assert.fail('should reject'), e => assert.strictEqual(e.message, 'boom'))
+    })
+  })
+
+  describe('ensuring', () => {
+    const getFinalizer = () => {
+      const log: Array<string> = []
+      return { log, finalizer: new IO(() => log.push('finalized')).map(() => undefined) }
+    }
+
+    it('should run the finalizer after a result', async () => {
+      const { log, finalizer } = getFinalizer()
+      assert.strictEqual(await taskRace.ensuring(task.of(1), finalizer).run(), 1)
+      assert.deepStrictEqual(await taskEitherRace.ensuring(fromLeft('error'), finalizer).run(), left('error'))
+      assert.deepStrictEqual(await taskOptionRace.ensuring(taskOption.none, finalizer).run(), none)
+      assert.deepStrictEqual(
+        await stateTaskEitherRace.ensuring(modify<string, number>(n => n + 1), finalizer).run(1),
+        right([undefined, 2])
+      )
+      assert.deepStrictEqual(log, ['finalized', 'finalized', 'finalized', 'finalized'])
+    })
+
+    it('should run the finalizer after a rejection', async () => {
+      const { log, finalizer } = getFinalizer()
+      await taskRace
+        .ensuring(new Task(() => Promise.reject(new Error('boom'))), finalizer)
+        .run()
+        .then(() => assert.fail('should reject'), e => assert.strictEqual(e.message, 'boom'))
+      assert.deepStrictEqual(log, ['finalized'])
+    })
+  })
+})
@@ -0,0 +1,158 @@
+import * as assert from 'assert'
+import { range } from 'fp-ts/lib/Array'
+import { left, right } from 'fp-ts/lib/Either'
+import { none, some } from 'fp-ts/lib/Option'
+import { Task, task } from 'fp-ts/lib/Task'
+import { fromLeft, taskEither, TaskEither } from 'fp-ts/lib/TaskEither'
+import { traverseWithConcurrency } from '../src/traverseWithConcurrency'
+import { StateTaskEither, stateTaskEither } from '../src/StateTaskEither'
+import { TaskOption, taskOption } from '../src/TaskOption'
+
+const delay = <A>(ms: number, a: A): Task<A> => new Task(() => new Promise(resolve => setTimeout(() => resolve(a), ms)))
+
+const flush = (): Promise<void> => new Promise(resolve => setImmediate(resolve))
+
+// actions that complete when `complete` is called, so the completion order doesn't depend on timers
+const getManualTasks = () => {
+  const resolvers = new Map<number, () => void>()
+  return {
+    wait: (a: number): Task<number> =>
+      new Task(() => new Promise<void>(resolve => resolvers.set(a, resolve))).map(() => a),
+    complete: async (...as: Array<number>): Promise<void> => {
+      for (const a of as) {
+        await flush()
+        resolvers.get(a)!()
+      }
+    }
+  }
+}
+
+describe('traverseWithConcurrency', () => {
+  it('should keep at most n actions in flight', async () => {
+    let running = 0
+    let maxRunning = 0
+    const actual = await traverseWithConcurrency(task)(2)([30, 10, 10, 10], ms =>
+      new Task(() => {
+        running++
+        maxRunning = Math.max(running, maxRunning)
+        return Promise.resolve()
+      })
+        .chain(() => delay(ms, ms))
+        .map(b => {
+          running--
+          return b * 2
+        })
+    ).run()
+    assert.deepStrictEqual(actual, [60, 20, 20, 20])
+    assert.strictEqual(maxRunning, 2)
+  })
+
+  it('should start the next action as soon as a slot is free', async () => {
+    const log: Array<number> = []
+    let resolveFirst!: () => void
+    const first = new Promise<void>(resolve => (resolveFirst = resolve))
+    const result = traverseWithConcurrency(task)(2)([1, 2, 3, 4], a =>
+      new Task(() => (a === 1 ? first : Promise.resolve())).map(() => {
+        log.push(a)
+        return a
+      })
+    ).run()
+    // the other actions complete while the first one is still running
+    await new Promise(resolve => setImmediate(resolve))
+    assert.deepStrictEqual(log, [2, 3, 4])
+    resolveFirst()
+    assert.deepStrictEqual(await result, [1, 2, 3, 4])
+    assert.deepStrictEqual(log, [2, 3, 4, 1])
+  })
+
+  it('should handle empty inputs', async () => {
+    assert.deepStrictEqual(await traverseWithConcurrency(task)(2)([], task.of).run(), [])
+  })
+
+  it('should run one action at a time when n is not a positive number', async () => {
+    assert.deepStrictEqual(await traverseWithConcurrency(task)(0)([1, 2], task.of).run(), [1, 2])
+    assert.deepStrictEqual(await traverseWithConcurrency(task)(NaN)([1, 2], task.of).run(), [1, 2])
+  })
+
+  it('should reject when f throws', async () => {
+    const f = (a: number): Task<number> => {
+      if (a === 2) {
+        throw new Error('boom')
+      }
+      return task.of(a)
+    }
+    await traverseWithConcurrency(task)(1)([1, 2, 3], f)
+      .run()
+      .then(() => assert.fail('expected a rejection'), e => assert.strictEqual(e.message, 'boom'))
+  })
+
+  it('should not stack overflow', async () => {
+    const input = range(1, 10000)
+    const actual = await traverseWithConcurrency(taskEither)(2)(input, taskEither.of).run()
+    assert.deepStrictEqual(actual, right(input))
+  })
+
+  it('should return the first failure', async () => {
+    const { wait, complete } = getManualTasks()
+    const log: Array<number> = []
+    const f = (a: number): TaskEither<string, number> =>
+      new TaskEither(
+        wait(a).map(a => {
+          log.push(a)
+          return a === 2 || a === 3 ? left<string, number>(`Error: ${a}`) : right<string, number>(a)
+        })
+      )
+    const result = traverseWithConcurrency(taskEither)(2)([1, 3, 2, 4, 5], f).run()
+    await complete(1, 3, 2, 4, 5)
+    assert.deepStrictEqual(await result, left('Error: 3'))
+    assert.deepStrictEqual(log, [1, 3, 2, 4, 5])
+  })
+
+  it('should stop starting new actions after the first failure when failFast is true', async () => {
+    const { wait, complete } = getManualTasks()
+    const log: Array<number> = []
+    const f = (a: number): TaskEither<string, number> =>
+      new TaskEither(
+        wait(a).map(a => {
+          log.push(a)
+          return a === 2 ? left<string, number>(`Error: ${a}`) : right<string, number>(a)
+        })
+      )
+    const result = traverseWithConcurrency(taskEither)(2, true)([5, 2, 1, 3], f).run()
+    await complete(2, 5)
+    assert.deepStrictEqual(await result, left('Error: 2'))
+    assert.deepStrictEqual(log, [2, 5])
+  })
+
+  it('should support TaskOption', async () => {
+    const f = (a: number): TaskOption<number> => new TaskOption(task.of(a > 0 ? some(a) : none))
+    assert.deepStrictEqual(await traverseWithConcurrency(taskOption)(2)([1, 2, 3], f).run(), some([1, 2, 3]))
+    assert.deepStrictEqual(await traverseWithConcurrency(taskOption)(2, true)([1, 0, 3], f).run(), none)
+    const { wait, complete } = getManualTasks()
+    const log: Array<number> = []
+    const g = (a: number): TaskOption<number> =>
+      new TaskOption(
+        wait(a).map(a => {
+          log.push(a)
+          return a === 2 ? none : some(a)
+        })
+      )
+    const result = traverseWithConcurrency(taskOption)(2, true)([5, 2, 1, 3], g).run()
+    await complete(2, 5)
+    assert.deepStrictEqual(await result, none)
+    assert.deepStrictEqual(log, [2, 5])
+  })
+
+  it('should support StateTaskEither', async () => {
+    const f = (a: number): StateTaskEither<number, string, number> =>
+      new StateTaskEither(s =>
+        a > 0 ? taskEither.of<string, [number, number]>([a + s, s + a]) : fromLeft(`Error: ${a}`)
+      )
+    assert.deepStrictEqual(
+      await traverseWithConcurrency(stateTaskEither)(2)([1, 2, 3], f).run(10),
+      right([[11, 13, 16], 16])
+    )
+    assert.deepStrictEqual(await traverseWithConcurrency(stateTaskEither)(2)([], f).run(10), right([[], 10]))
+    assert.deepStrictEqual(await traverseWithConcurrency(stateTaskEither)(2)([1, 0, 3], f).run(10), left('Error: 0'))
+  })
+})